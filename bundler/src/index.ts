@@ -6,4 +6,5 @@
 export * from './tree-shaking';
 export * from './dynamic-imports';
 export * from './deduplication';
-export * from './analyzer';
\ No newline at end of file
+export * from './analyzer';
+export * from './plugin';
\ No newline at end of file
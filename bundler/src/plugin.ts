@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Bundler plugin
+ *
+ * Applies the bundle optimizations to client builds.
+ */
+import { RytestackPlugin } from '@rytestack/core';
+import { TreeShakingOptions, enhanceTreeShaking } from './tree-shaking';
+import { DynamicImportsConfig, enhanceDynamicImports } from './dynamic-imports';
+import { DeduplicationOptions, enhanceDeduplication } from './deduplication';
+import { BundleAnalyzerOptions, enhanceBundleAnalyzer } from './analyzer';
+
+/**
+ * Bundler plugin options
+ *
+ * Each optimization is enabled by default, pass `false` to disable it or
+ * an options object to configure it.
+ */
+export interface BundlerPluginOptions {
+    /**
+     * Tree-shaking enhancements
+     */
+    treeShaking?: boolean | TreeShakingOptions;
+
+    /**
+     * Dynamic imports optimization
+     */
+    dynamicImports?: boolean | DynamicImportsConfig;
+
+    /**
+     * Dependency deduplication
+     */
+    deduplication?: boolean | DeduplicationOptions;
+
+    /**
+     * Bundle analysis, disabled unless `ANALYZE=true` is set
+     */
+    analyze?: boolean | BundleAnalyzerOptions;
+}
+
+/**
+ * Converts a plugin option to the options of an optimization
+ */
+function getOptions<T extends object>(option: boolean | T | undefined): T | null {
+    if (option === false) {
+        return null;
+    }
+
+    return typeof option === 'object' ? option : {} as T;
+}
+
+/**
+ * Creates the bundler plugin
+ *
+ * @param options Plugin options
+ * @returns Rytestack plugin
+ *
+ * @example
+ * ```typescript
+ * import { defineConfig } from '@rytestack/core';
+ * import { bundlerPlugin } from '@rytestack/bundler';
+ *
+ * export default defineConfig({
+ *   plugins: [bundlerPlugin({ analyze: true })]
+ * });
+ * ```
+ */
+export function bundlerPlugin(options: BundlerPluginOptions = {}): RytestackPlugin {
+    const treeShaking = getOptions(options.treeShaking);
+    const dynamicImports = getOptions(options.dynamicImports);
+    const deduplication = getOptions(options.deduplication);
+    const analyze = options.analyze === true ? { enabled: true } : getOptions(options.analyze);
+
+    return {
+        name: 'rytestack:bundler',
+        buildOptions(buildConfig, { config, target }) {
+            // Server bundles aren't sent to the client
+            if (target !== 'client') {
+                return;
+            }
+
+            let result = buildConfig;
+
+            if (treeShaking) {
+                result = enhanceTreeShaking(result, config, treeShaking);
+            }
+
+            if (dynamicImports) {
+                result = enhanceDynamicImports(result, config, dynamicImports);
+            }
+
+            if (deduplication) {
+                result = enhanceDeduplication(result, config, deduplication);
+            }
+
+            if (analyze) {
+                result = enhanceBundleAnalyzer(result, config, analyze);
+            }
+
+            return result;
+        }
+    };
+}
@@ -5,4 +5,5 @@
  */
 export * from './logger';
 export * from './middleware';
-export * from './formatters';
\ No newline at end of file
+export * from './formatters';
+export * from './plugin';
\ No newline at end of file
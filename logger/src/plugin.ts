@@ -0,0 +1,45 @@
+/**
+ * @fileoverview Logger plugin
+ *
+ * Registers the request logging middleware.
+ */
+import { RytestackPlugin } from '@rytestack/core';
+import { createLoggerFromConfig } from './logger';
+import { RequestLoggerOptions, requestLogger } from './middleware';
+
+/**
+ * Creates the logger plugin
+ *
+ * Requests are logged with the logger configured by the `logging` config,
+ * headers are only logged outside production.
+ *
+ * @param options Request logging options
+ * @returns Rytestack plugin
+ *
+ * @example
+ * ```typescript
+ * import { defineConfig } from '@rytestack/core';
+ * import { loggerPlugin } from '@rytestack/logger';
+ *
+ * export default defineConfig({
+ *   plugins: [loggerPlugin({ logBody: true })]
+ * });
+ * ```
+ */
+export function loggerPlugin(options: RequestLoggerOptions = {}): RytestackPlugin {
+    return {
+        name: 'rytestack:logger',
+        // Log requests before other plugins can answer them
+        enforce: 'pre',
+        middleware({ config, mode }) {
+            return [
+                requestLogger({
+                    logger: createLoggerFromConfig(config),
+                    logTiming: true,
+                    logHeaders: mode !== 'production',
+                    ...options
+                })
+            ];
+        }
+    };
+}
@@ -0,0 +1,203 @@
+/**
+ * @fileoverview Development build pipeline
+ *
+ * Bundles the client and server of a project with incremental esbuild
+ * contexts, so rebuilds after a change only redo the affected work.
+ */
+import path from 'path';
+import fs from 'fs/promises';
+import { pathToFileURL } from 'url';
+import { context } from 'esbuild';
+import {
+    AssetManifest,
+    LoadedEnv,
+    RouteManifest,
+    RytestackConfig,
+    buildRouteManifest,
+    createAssetManifest,
+    createClientBuildConfig,
+    createServerBuildConfig,
+    routeManifestPlugin,
+    writeAssetManifest
+} from '@rytestack/core';
+import { DevServerHandlers } from '@rytestack/server';
+import { GENERATED_DIR, assertFrameworkSupported, writeClientEntry, writeHandlersEntry } from './entries';
+import { REFRESH_RUNTIME_MODULE, createRefreshTransform, getHotUpdate } from './refresh';
+
+/**
+ * Output directory of the development build, relative to the project root
+ */
+export const DEV_OUT_DIR = path.join(GENERATED_DIR, 'dev');
+
+/**
+ * Options for creating a development build
+ */
+export interface DevBuildOptions {
+    /**
+     * Project configuration
+     */
+    config: RytestackConfig;
+
+    /**
+     * Loaded environment variables
+     */
+    env: LoadedEnv;
+}
+
+/**
+ * Result of a development rebuild
+ */
+export interface DevBuildResult {
+    /**
+     * Route manifest with the chunks of every route
+     */
+    manifest: RouteManifest;
+
+    /**
+     * Client assets
+     */
+    assets: AssetManifest;
+
+    /**
+     * Output directory of the client build, served as static files
+     */
+    clientOutDir: string;
+
+    /**
+     * Server bundle exporting `createHandlers()`
+     */
+    serverFile: string;
+
+    /**
+     * URLs of the client chunks to hot swap, undefined when the page must reload
+     */
+    hotUpdate?: string[];
+}
+
+/**
+ * Incremental development build
+ */
+export interface DevBuild {
+    /**
+     * Re-discovers the routes and rebuilds the client and server bundles
+     *
+     * @param changedFiles Source files changed since the last build, used to work out the hot update
+     * @throws Error if a bundle fails to build
+     */
+    rebuild: (changedFiles?: Iterable<string>) => Promise<DevBuildResult>;
+
+    /**
+     * Releases the esbuild contexts
+     */
+    dispose: () => Promise<void>;
+}
+
+/**
+ * Creates an incremental development build
+ *
+ * Routes are re-discovered before every rebuild, so the virtual manifest
+ * module picks up added and removed pages as well as changed page metadata.
+ *
+ * @param options Build options
+ * @returns Development build, call `rebuild()` for the first build
+ */
+export async function createDevBuild({ config, env }: DevBuildOptions): Promise<DevBuild> {
+    assertFrameworkSupported(config.framework);
+
+    const mode = 'development';
+    const outDir = path.resolve(DEV_OUT_DIR);
+    const clientOutDir = path.join(outDir, 'client');
+    const serverFile = path.join(outDir, 'server.mjs');
+
+    await fs.rm(outDir, { recursive: true, force: true });
+
+    let manifest = await buildRouteManifest(outDir, { srcDir: config.srcDir, config });
+    const manifestPlugin = routeManifestPlugin(() => manifest, config.srcDir);
+    const clientManifestPlugin = routeManifestPlugin(() => manifest, config.srcDir, 'client');
+
+    // Client
+    const clientEntry = await writeClientEntry(REFRESH_RUNTIME_MODULE);
+    const clientConfig = createClientBuildConfig({
+        mode,
+        config,
+        env,
+        entryPoints: [clientEntry],
+        outdir: clientOutDir,
+        transforms: [createRefreshTransform(config.srcDir)]
+    });
+    const clientContext = await context({
+        ...clientConfig,
+        entryNames: 'assets/[name]',
+        chunkNames: 'assets/chunk-[hash]',
+        assetNames: 'assets/[name]-[hash]',
+        jsx: 'automatic',
+        logLevel: 'silent',
+        plugins: [...(clientConfig.plugins || []), clientManifestPlugin]
+    });
+
+    // Server, an ES module imported by the CLI
+    const serverEntry = await writeHandlersEntry('dev-server.ts');
+    const serverConfig = createServerBuildConfig({ mode, config, env, entryPoints: [serverEntry], outdir: outDir });
+    const serverContext = await context({
+        ...serverConfig,
+        entryNames: path.basename(serverFile, '.mjs'),
+        outExtension: { '.js': '.mjs' },
+        jsx: 'automatic',
+        logLevel: 'silent',
+        packages: 'external',
+        plugins: [...(serverConfig.plugins || []), manifestPlugin]
+    });
+
+    const rebuild = async (changedFiles?: Iterable<string>): Promise<DevBuildResult> => {
+        manifest = await buildRouteManifest(outDir, { srcDir: config.srcDir, config });
+
+        const clientResult = await clientContext.rebuild();
+        const chunkManifest = await buildRouteManifest(outDir, {
+            srcDir: config.srcDir,
+            config,
+            clientMetafile: clientResult.metafile,
+            clientOutDir
+        });
+
+        const assets = createAssetManifest({ metafile: clientResult.metafile!, outDir: clientOutDir, entryPoint: clientEntry, manifest: chunkManifest });
+        await writeAssetManifest(outDir, assets);
+
+        await serverContext.rebuild();
+
+        // The document is only rendered on the server, pages reload to pick up changes
+        const files = changedFiles && [...changedFiles];
+        const documentFile = manifest.document && path.resolve(config.srcDir, manifest.document);
+
+        const hotUpdate = files && !files.some(file => path.resolve(file) === documentFile) ? getHotUpdate({
+            changedFiles: files,
+            srcDir: config.srcDir,
+            metafile: clientResult.metafile!,
+            clientOutDir,
+            publicPath: assets.publicPath
+        }) : undefined;
+
+        return { manifest: chunkManifest, assets, clientOutDir, serverFile, hotUpdate };
+    };
+
+    const dispose = async () => {
+        await Promise.all([clientContext.dispose(), serverContext.dispose()]);
+    };
+
+    return { rebuild, dispose };
+}
+
+/**
+ * Imports the server bundle of a development build and creates its handlers
+ *
+ * Every rebuild is imported under a new URL, since ES modules can't be
+ * evicted from the module cache.
+ *
+ * @param result Development build result
+ * @param config Project configuration
+ * @returns Page handler, API handlers and folder-scoped middleware
+ */
+export async function loadDevHandlers(result: DevBuildResult, config: RytestackConfig): Promise<DevServerHandlers> {
+    const module = await import(`${pathToFileURL(result.serverFile).href}?t=${Date.now()}`);
+
+    return module.createHandlers(config, result.assets);
+}
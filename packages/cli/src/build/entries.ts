@@ -0,0 +1,171 @@
+/**
+ * @fileoverview Generated build entries
+ *
+ * Writes the client and server entry modules bundled by `rytestack build`
+ * and `rytestack dev` to the `.rytestack` directory of the project.
+ */
+import path from 'path';
+import fs from 'fs/promises';
+import { AssetManifest, ConfigMode, Framework, ensureDir } from '@rytestack/core';
+import { ServerTarget } from './targets';
+
+/**
+ * Directory of the generated entries, relative to the project root
+ */
+export const GENERATED_DIR = '.rytestack';
+
+/**
+ * Header of generated modules
+ */
+const GENERATED_HEADER = '// Generated by Rytestack, do not edit';
+
+/**
+ * Frameworks the build pipeline supports
+ */
+const SUPPORTED_FRAMEWORKS: Framework[] = ['react'];
+
+/**
+ * Checks that the build pipeline supports a framework
+ *
+ * @param framework Framework of the project
+ * @throws Error if the framework isn't supported yet
+ */
+export function assertFrameworkSupported(framework: Framework): void {
+    if (!SUPPORTED_FRAMEWORKS.includes(framework)) {
+        throw new Error(`Building ${framework} projects isn't supported yet, supported frameworks: ${SUPPORTED_FRAMEWORKS.join(', ')}`);
+    }
+}
+
+/**
+ * Writes a generated module, relative to the generated directory
+ */
+async function writeGeneratedFile(fileName: string, contents: string): Promise<string> {
+    const filePath = path.resolve(GENERATED_DIR, fileName);
+
+    await ensureDir(path.dirname(filePath));
+    await fs.writeFile(filePath, `${GENERATED_HEADER}\n${contents.trim()}\n`, 'utf-8');
+
+    return filePath;
+}
+
+/**
+ * Writes the client entry, which hydrates the server-rendered pages
+ *
+ * @param refreshRuntime Module loaded before React in development, see `createRefreshTransform()`
+ * @returns Absolute path to the entry
+ */
+export async function writeClientEntry(refreshRuntime?: string): Promise<string> {
+    return writeGeneratedFile('client.tsx', `
+${refreshRuntime ? `import ${JSON.stringify(refreshRuntime)};` : ''}
+import { manifest, modules } from 'virtual:rytestack/manifest';
+import { hydrateApp } from '@rytestack/react';
+
+hydrateApp({ manifest, modules });
+`);
+}
+
+/**
+ * Creates the page handler, API handlers and folder-scoped middleware from
+ * the virtual manifest module, shared by the generated server entries
+ */
+const CREATE_HANDLERS = `
+async function createHandlers(config: RytestackConfig, assets: AssetManifest) {
+    const pageHandler = createPageHandler({ config, manifest, modules, assets });
+    const scopedMiddleware = await loadScopedMiddleware(manifestToRoutes(manifest).middleware, file => modules[file]());
+
+    return {
+        pageHandler,
+        scopedMiddleware,
+        apiHandlers: {
+            '/': createPageServer({ config, rootDir: '.', manifest, modules, pageHandler })
+        }
+    };
+}
+`;
+
+/**
+ * Options for writing the server entry
+ */
+export interface ServerEntryOptions {
+    /**
+     * Deployment target bundle
+     */
+    target: ServerTarget;
+
+    /**
+     * Config file and its overlay for the mode, merged in order
+     */
+    configFiles: string[];
+
+    /**
+     * Mode the configuration is resolved for
+     */
+    mode: ConfigMode;
+
+    /**
+     * Client assets
+     */
+    assets: AssetManifest;
+
+    /**
+     * URL paths of the client files
+     */
+    staticFiles: string[];
+}
+
+/**
+ * Writes the server entry for a deployment target
+ *
+ * The entry resolves the project configuration at startup, because
+ * plugins can't be serialized, and serves pages, API routes and
+ * middleware from the route manifest.
+ *
+ * @param options Entry options
+ * @returns Absolute path to the entry
+ */
+export async function writeServerEntry({ target, configFiles, mode, assets, staticFiles }: ServerEntryOptions): Promise<string> {
+    const configImports = configFiles
+        .map((file, index) => `import userConfig${index} from ${JSON.stringify(file)};`)
+        .join('\n');
+    const configList = configFiles.map((_, index) => `userConfig${index}`).join(', ');
+
+    return writeGeneratedFile('server.ts', `
+import { manifest, modules } from 'virtual:rytestack/manifest';
+import { AssetManifest, RytestackConfig, manifestToRoutes, mergeConfig, resolveConfig, resolveUserConfig } from '@rytestack/core';
+import { Middleware, createServer, loadScopedMiddleware } from '@rytestack/server';
+import { createPageHandler, createServer as createPageServer } from '@rytestack/react';
+${configImports}
+
+const assets = ${JSON.stringify(assets)};
+${CREATE_HANDLERS}
+async function createApp(middleware: Middleware[] = []) {
+    const userConfigs = await Promise.all([${configList}].map(exported => resolveUserConfig(exported, ${JSON.stringify(mode)})));
+    const config = await resolveConfig(userConfigs.reduce((merged, overlay) => mergeConfig(merged, overlay), {}), ${JSON.stringify(mode)});
+
+    return createServer({ config, middleware, ...await createHandlers(config, assets) });
+}
+
+${target.bootstrap(staticFiles)}
+`);
+}
+
+/**
+ * Writes an entry exporting `createHandlers()` and the virtual manifest module
+ *
+ * Unlike the production server entry, it's imported by the CLI, which
+ * passes the project configuration it loaded: the development server keeps
+ * running across rebuilds and static builds pre-render pages with it.
+ *
+ * @param fileName Entry file name, relative to the generated directory
+ * @returns Absolute path to the entry
+ */
+export async function writeHandlersEntry(fileName: string): Promise<string> {
+    return writeGeneratedFile(fileName, `
+import { manifest, modules } from 'virtual:rytestack/manifest';
+import { AssetManifest, RytestackConfig, manifestToRoutes } from '@rytestack/core';
+import { loadScopedMiddleware } from '@rytestack/server';
+import { createPageHandler, createServer as createPageServer } from '@rytestack/react';
+${CREATE_HANDLERS}
+export { createHandlers, manifest, modules };
+`);
+}
@@ -0,0 +1,220 @@
+/**
+ * @fileoverview Production build pipeline
+ *
+ * Bundles the client and server of a project with esbuild.
+ */
+import path from 'path';
+import fs from 'fs/promises';
+import { build as esbuild, BuildOptions } from 'esbuild';
+import {
+    AssetManifest,
+    DeploymentTarget,
+    LoadedEnv,
+    RouteManifest,
+    RytestackConfig,
+    buildRouteManifest,
+    createAssetManifest,
+    createClientBuildConfig,
+    createServerBuildConfig,
+    dirExists,
+    findConfigOverlay,
+    routeManifestPlugin,
+    serverOnlyModulesPlugin,
+    writeAssetManifest
+} from '@rytestack/core';
+import { GENERATED_DIR, assertFrameworkSupported, writeClientEntry, writeServerEntry } from './entries';
+import { prerenderPages } from './static';
+import { SERVER_TARGETS } from './targets';
+
+export * from './dev';
+export * from './refresh';
+export * from './static';
+export * from './summary';
+
+/**
+ * Options for building a project
+ */
+export interface BuildProjectOptions {
+    /**
+     * Project configuration
+     */
+    config: RytestackConfig;
+
+    /**
+     * Deployment target
+     */
+    target: DeploymentTarget;
+
+    /**
+     * Loaded environment variables
+     */
+    env: LoadedEnv;
+
+    /**
+     * Project config file, imported by the server entry
+     */
+    configFile?: string;
+}
+
+/**
+ * Result of a project build
+ */
+export interface BuildProjectResult {
+    /**
+     * Route manifest with the chunks of every route
+     */
+    manifest: RouteManifest;
+
+    /**
+     * Client assets
+     */
+    assets: AssetManifest;
+
+    /**
+     * Output directory of the client build
+     */
+    clientOutDir: string;
+
+    /**
+     * Server bundle, not built for static output
+     */
+    serverFile?: string;
+
+    /**
+     * URL paths of the pre-rendered pages, for static output
+     */
+    staticPaths?: string[];
+}
+
+/**
+ * Lists the files of a directory recursively
+ */
+async function listFiles(dir: string): Promise<string[]> {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    const files = await Promise.all(entries.map(entry => {
+        const entryPath = path.join(dir, entry.name);
+        return entry.isDirectory() ? listFiles(entryPath) : [entryPath];
+    }));
+
+    return files.flat();
+}
+
+/**
+ * Builds a project for production
+ *
+ * 1. Discovers the routes and writes the route manifest
+ * 2. Bundles the client entry, with a chunk per page, and writes the asset manifest
+ * 3. Copies the public directory next to the client bundle
+ * 4. Bundles the server entry for the deployment target
+ * 5. Rewrites the route manifest with the chunk of every route
+ *
+ * With static output, the client bundle is written to the output directory
+ * itself and every page is pre-rendered next to it instead of steps 4 and 5.
+ * The manifests are kept in the generated directory, so the output
+ * directory only contains what is deployed.
+ *
+ * @param options Build options
+ * @returns Build result
+ * @throws Error if a bundle fails to build
+ */
+export async function buildProject({ config, target, env, configFile }: BuildProjectOptions): Promise<BuildProjectResult> {
+    assertFrameworkSupported(config.framework);
+
+    const mode = 'production';
+    const isStatic = config.output === 'static';
+    const outDir = path.resolve(config.outDir);
+    const clientOutDir = isStatic ? outDir : path.join(outDir, 'client');
+    const manifestDir = isStatic ? path.resolve(GENERATED_DIR) : outDir;
+    const serverTarget = SERVER_TARGETS[target];
+    const serverFile = path.join(outDir, serverTarget.outfile);
+
+    if (!path.relative(outDir, process.cwd()).startsWith('..')) {
+        throw new Error(`Output directory ${config.outDir} must not contain the project, it's emptied before building`);
+    }
+
+    // Hashed file names change with every build, so stale outputs are removed
+    await fs.rm(outDir, { recursive: true, force: true });
+
+    let manifest = await buildRouteManifest(manifestDir, { srcDir: config.srcDir, config });
+    const manifestPlugin = routeManifestPlugin(() => manifest, config.srcDir);
+    const clientManifestPlugin = routeManifestPlugin(() => manifest, config.srcDir, 'client');
+
+    // Client
+    const clientEntry = await writeClientEntry();
+    const clientConfig = createClientBuildConfig({ mode, config, env, entryPoints: [clientEntry], outdir: clientOutDir });
+    const clientResult = await esbuild({
+        ...clientConfig,
+        entryNames: 'assets/[name]-[hash]',
+        chunkNames: 'assets/chunk-[hash]',
+        assetNames: 'assets/[name]-[hash]',
+        jsx: 'automatic',
+        logLevel: 'silent',
+        plugins: [...(clientConfig.plugins || []), clientManifestPlugin]
+    });
+
+    manifest = await buildRouteManifest(manifestDir, {
+        srcDir: config.srcDir,
+        config,
+        clientMetafile: clientResult.metafile,
+        clientOutDir
+    });
+
+    const assets = createAssetManifest({ metafile: clientResult.metafile!, outDir: clientOutDir, entryPoint: clientEntry, manifest });
+    await writeAssetManifest(manifestDir, assets);
+
+    if (await dirExists(config.publicDir)) {
+        await fs.cp(config.publicDir, clientOutDir, { recursive: true });
+    }
+
+    // Static pages
+    if (isStatic) {
+        const staticPaths = await prerenderPages({ config, env, manifest, assets, manifestPlugin, outDir });
+
+        return { manifest, assets, clientOutDir, staticPaths };
+    }
+
+    // Server
+    const overlayFile = configFile && await findConfigOverlay(configFile, mode);
+    const staticFiles = (await listFiles(clientOutDir)).map(file => `/${path.relative(clientOutDir, file).replace(/\\/g, '/')}`);
+    const serverEntry = await writeServerEntry({
+        target: serverTarget,
+        configFiles: [configFile, overlayFile].filter((file): file is string => Boolean(file)),
+        mode,
+        assets,
+        staticFiles
+    });
+
+    const serverConfig: BuildOptions = createServerBuildConfig({ mode, config, env, entryPoints: [serverEntry], outdir: path.dirname(serverFile) });
+    const serverResult = await esbuild({
+        ...serverConfig,
+        entryNames: path.basename(serverFile, '.js'),
+        jsx: 'automatic',
+        logLevel: 'silent',
+        ...(serverTarget.runtime === 'edge'
+            ? {
+                platform: 'browser' as const,
+                conditions: ['worker', 'browser'],
+                plugins: [...(serverConfig.plugins || []), manifestPlugin, serverOnlyModulesPlugin(config.srcDir)]
+            }
+            : {
+                packages: 'external' as const,
+                plugins: [...(serverConfig.plugins || []), manifestPlugin]
+            })
+    });
+
+    // The server bundle is an ES module
+    if (target === 'node') {
+        await fs.writeFile(path.join(outDir, 'package.json'), `${JSON.stringify({ type: 'module' }, null, 2)}\n`, 'utf-8');
+    }
+
+    manifest = await buildRouteManifest(outDir, {
+        srcDir: config.srcDir,
+        config,
+        clientMetafile: clientResult.metafile,
+        clientOutDir,
+        serverMetafile: serverResult.metafile,
+        serverOutDir: path.dirname(serverFile)
+    });
+
+    return { manifest, assets, clientOutDir, serverFile };
+}
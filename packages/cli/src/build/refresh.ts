@@ -0,0 +1,124 @@
+/**
+ * @fileoverview React Fast Refresh for the development build
+ *
+ * Runs the React Refresh Babel transform on every source module, wired to
+ * the refresh runtime of `@rytestack/react/refresh`, and works out which
+ * client chunks to push to the browser after a rebuild.
+ */
+import path from 'path';
+import { transformAsync } from '@babel/core';
+import { Metafile } from 'esbuild';
+import { ClientModuleTransform, getChunkForFile } from '@rytestack/core';
+
+/**
+ * Module the development client entry imports before anything else
+ */
+export const REFRESH_RUNTIME_MODULE = '@rytestack/react/refresh';
+
+/**
+ * Extensions of the modules registered with the refresh runtime
+ */
+const REFRESH_EXTENSIONS = new Set(['.js', '.jsx', '.ts', '.tsx']);
+
+/**
+ * Creates a client module transform adding React Fast Refresh to every source module
+ *
+ * Runs `react-refresh/babel`, which registers every component of the
+ * module (exported or not) and records the hooks it calls, so components
+ * are swapped in place when the module is evaluated again and remounted
+ * when their hooks changed. The module also imports its own namespace and
+ * passes it to the runtime, which reloads the page when an export that
+ * isn't a component changed.
+ *
+ * @param srcDir Source directory, the transform only gets its modules
+ * @returns Client module transform
+ */
+export function createRefreshTransform(srcDir: string): ClientModuleTransform {
+    const root = path.resolve(srcDir);
+
+    return async (code, filePath) => {
+        if (!REFRESH_EXTENSIONS.has(path.extname(filePath))) {
+            return code;
+        }
+
+        const id = path.relative(root, filePath).replace(/\\/g, '/');
+        const result = await transformAsync(code, {
+            filename: filePath,
+            babelrc: false,
+            configFile: false,
+            sourceType: 'module',
+            // Babel reads the inline source map of the compiled module, so the map still points to the original source
+            sourceMaps: 'inline',
+            plugins: [['react-refresh/babel', { skipEnvCheck: true }]]
+        });
+
+        // Appended so the lines of the source map don't move, imports and functions are hoisted
+        return [
+            result?.code ?? code,
+            `import { createRefreshSignature as $RefreshSig$, registerRefreshComponent as __rytestackRegisterComponent, registerRefreshModule as __rytestackRegisterRefresh } from ${JSON.stringify(REFRESH_RUNTIME_MODULE)};`,
+            `import * as __rytestackRefreshExports from ${JSON.stringify(`./${path.basename(filePath)}`)};`,
+            `function $RefreshReg$(type, name) { __rytestackRegisterComponent(type, ${JSON.stringify(`${id} `)} + name); }`,
+            `__rytestackRegisterRefresh(${JSON.stringify(id)}, __rytestackRefreshExports);`
+        ].join('\n');
+    };
+}
+
+/**
+ * Options for working out a hot update
+ */
+export interface HotUpdateOptions {
+    /**
+     * Changed source files
+     */
+    changedFiles: Iterable<string>;
+
+    /**
+     * Source directory
+     */
+    srcDir: string;
+
+    /**
+     * Metafile of the client build
+     */
+    metafile: Metafile;
+
+    /**
+     * Output directory of the client build
+     */
+    clientOutDir: string;
+
+    /**
+     * URL prefix of the client files
+     */
+    publicPath: string;
+}
+
+/**
+ * Works out the client chunks containing changed source files
+ *
+ * @param options Hot update options
+ * @returns Chunk URLs, or undefined when a changed file isn't a registered
+ * client module (e.g. a stylesheet or an API route) and the page must reload
+ */
+export function getHotUpdate({ changedFiles, srcDir, metafile, clientOutDir, publicPath }: HotUpdateOptions): string[] | undefined {
+    const root = path.resolve(srcDir);
+    const urls = new Set<string>();
+
+    for (const file of changedFiles) {
+        const filePath = path.resolve(file);
+
+        if (!REFRESH_EXTENSIONS.has(path.extname(filePath)) || path.relative(root, filePath).startsWith('..')) {
+            return undefined;
+        }
+
+        const chunk = getChunkForFile(metafile, filePath, clientOutDir);
+
+        if (!chunk) {
+            return undefined;
+        }
+
+        urls.add(`${publicPath}${chunk}`);
+    }
+
+    return urls.size > 0 ? [...urls] : undefined;
+}
@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Static output
+ *
+ * Pre-renders every page of a project to HTML files a static host can serve.
+ */
+import path from 'path';
+import fs from 'fs/promises';
+import { pathToFileURL } from 'url';
+import { build as esbuild, Plugin } from 'esbuild';
+import {
+    AssetManifest,
+    LoadedEnv,
+    RouteManifest,
+    RytestackConfig,
+    createServerBuildConfig,
+    ensureDir,
+    getStaticOutputFile,
+    resolveStaticPaths
+} from '@rytestack/core';
+import { createServer } from '@rytestack/server';
+import { GENERATED_DIR, writeHandlersEntry } from './entries';
+
+/**
+ * Page written for URLs no page matches, picked up by most static hosts
+ */
+const NOT_FOUND_FILE = '404.html';
+
+/**
+ * Options for pre-rendering a project
+ */
+export interface PrerenderOptions {
+    /**
+     * Project configuration
+     */
+    config: RytestackConfig;
+
+    /**
+     * Loaded environment variables
+     */
+    env: LoadedEnv;
+
+    /**
+     * Route manifest
+     */
+    manifest: RouteManifest;
+
+    /**
+     * Client assets, referenced from the rendered pages
+     */
+    assets: AssetManifest;
+
+    /**
+     * Plugin serving the virtual manifest module
+     */
+    manifestPlugin: Plugin;
+
+    /**
+     * Directory the HTML files are written to
+     */
+    outDir: string;
+}
+
+/**
+ * Pre-renders every page of a project
+ *
+ * Pages are rendered through the same server the other outputs use, so
+ * middleware, plugins and HTML transforms apply. Every page is written to
+ * an `index.html` in the directory of its path, with the dehydrated query
+ * state embedded for hydration, and the not found page to `404.html`.
+ *
+ * @param options Pre-render options
+ * @returns URL paths of the rendered pages
+ * @throws Error if a page fails to render, or a dynamic page has no `getStaticPaths` export
+ */
+export async function prerenderPages({ config, env, manifest, assets, manifestPlugin, outDir }: PrerenderOptions): Promise<string[]> {
+    const entry = await writeHandlersEntry('prerender.ts');
+    const bundleFile = path.resolve(GENERATED_DIR, 'prerender.mjs');
+
+    const serverConfig = createServerBuildConfig({ mode: 'production', config, env, entryPoints: [entry], outdir: path.dirname(bundleFile) });
+    await esbuild({
+        ...serverConfig,
+        entryNames: path.basename(bundleFile, '.mjs'),
+        outExtension: { '.js': '.mjs' },
+        jsx: 'automatic',
+        logLevel: 'silent',
+        packages: 'external',
+        plugins: [...(serverConfig.plugins || []), manifestPlugin]
+    });
+
+    const { createHandlers, modules } = await import(`${pathToFileURL(bundleFile).href}?t=${Date.now()}`);
+    const app = createServer({ config, ...await createHandlers(config, assets) });
+    const paths = await resolveStaticPaths(manifest.routes, file => modules[file]());
+
+    const write = async (file: string, response: Response) => {
+        const filePath = path.join(outDir, file);
+
+        await ensureDir(path.dirname(filePath));
+        await fs.writeFile(filePath, await response.text(), 'utf-8');
+    };
+
+    const render = (urlPath: string) => app.fetch(new Request(new URL(urlPath, 'http://localhost')));
+
+    for (const urlPath of paths) {
+        const response = await render(urlPath);
+
+        if (response.status !== 200) {
+            throw new Error(`Pre-rendering ${urlPath} responded with status ${response.status}`);
+        }
+
+        await write(getStaticOutputFile(urlPath), response);
+    }
+
+    // Catch-all pages leave nothing unmatched
+    const notFound = await render('/__rytestack/not-found');
+
+    if (notFound.status === 404) {
+        await write(NOT_FOUND_FILE, notFound);
+    }
+
+    return paths;
+}
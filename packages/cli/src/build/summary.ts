@@ -0,0 +1,110 @@
+/**
+ * @fileoverview Build summary
+ *
+ * Prints the client JavaScript size of every page after a build.
+ */
+import path from 'path';
+import fs from 'fs/promises';
+import { gzipSync } from 'zlib';
+import chalk from 'chalk';
+import { AssetManifest, RouteManifest } from '@rytestack/core';
+
+/**
+ * Gzipped size above which a page's first load is highlighted
+ */
+const LARGE_FIRST_LOAD = 200 * 1024;
+
+/**
+ * Client JavaScript size of a page
+ */
+export interface RouteSize {
+    /**
+     * Route path
+     */
+    path: string;
+
+    /**
+     * Gzipped size of the chunks only this page loads
+     */
+    size: number;
+
+    /**
+     * Gzipped size of all chunks loaded when the page is opened first
+     */
+    firstLoad: number;
+}
+
+/**
+ * Formats a byte count
+ *
+ * @param bytes Byte count
+ * @returns Human-readable size
+ */
+export function formatSize(bytes: number): string {
+    return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} kB`;
+}
+
+/**
+ * Computes the client JavaScript size of every page
+ *
+ * @param manifest Route manifest
+ * @param assets Client assets
+ * @param clientOutDir Output directory of the client build
+ * @returns Sizes in route order
+ */
+export async function getRouteSizes(manifest: RouteManifest, assets: AssetManifest, clientOutDir: string): Promise<RouteSize[]> {
+    const gzipSizes = new Map<string, number>();
+
+    const getSize = async (urls: Iterable<string>) => {
+        let total = 0;
+
+        for (const url of urls) {
+            if (!gzipSizes.has(url)) {
+                const filePath = path.join(clientOutDir, url.slice(assets.publicPath.length));
+                gzipSizes.set(url, gzipSync(await fs.readFile(filePath)).length);
+            }
+
+            total += gzipSizes.get(url)!;
+        }
+
+        return total;
+    };
+
+    const entryFiles = new Set([assets.entry.file, ...assets.entry.imports]);
+    const sharedSize = await getSize(entryFiles);
+
+    return Promise.all(manifest.routes.map(async route => {
+        const chunk = assets.routes[route.path];
+        const routeFiles = chunk ? [chunk.file, ...chunk.imports].filter(file => !entryFiles.has(file)) : [];
+        const size = await getSize(new Set(routeFiles));
+
+        return { path: route.path, size, firstLoad: sharedSize + size };
+    }));
+}
+
+/**
+ * Prints the client JavaScript size of every page
+ *
+ * @param manifest Route manifest
+ * @param assets Client assets
+ * @param clientOutDir Output directory of the client build
+ */
+export async function printBuildSummary(manifest: RouteManifest, assets: AssetManifest, clientOutDir: string): Promise<void> {
+    const sizes = await getRouteSizes(manifest, assets, clientOutDir);
+    const width = Math.max('Route'.length, ...sizes.map(size => size.path.length)) + 2;
+
+    console.log();
+    console.log(chalk.bold(`${'Route'.padEnd(width)}${'Size'.padStart(10)}${'First load'.padStart(14)}`));
+
+    for (const { path: routePath, size, firstLoad } of sizes) {
+        const firstLoadText = formatSize(firstLoad).padStart(14);
+
+        console.log(`${routePath.padEnd(width)}${formatSize(size).padStart(10)}${firstLoad > LARGE_FIRST_LOAD ? chalk.yellow(firstLoadText) : firstLoadText}`);
+    }
+
+    if (manifest.apiRoutes.length > 0) {
+        console.log(chalk.gray(`\n${manifest.apiRoutes.length} API route${manifest.apiRoutes.length === 1 ? '' : 's'}: ${manifest.apiRoutes.map(route => route.path).join(', ')}`));
+    }
+
+    console.log(chalk.gray('\nSizes are gzipped client JavaScript.'));
+}
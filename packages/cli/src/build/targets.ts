@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Deployment targets
+ *
+ * Describes the server bundle each deployment target expects.
+ */
+import { DeploymentTarget } from '@rytestack/core';
+
+/**
+ * Server bundle of a deployment target
+ */
+export interface ServerTarget {
+    /**
+     * Output file, relative to the output directory
+     */
+    outfile: string;
+
+    /**
+     * Runtime the bundle runs on, edge bundles include their dependencies
+     * and use the `worker` and `browser` builds of packages
+     */
+    runtime: 'node' | 'edge';
+
+    /**
+     * Generates the code starting the application on the platform
+     *
+     * The code runs after the generated `createApp()` function.
+     *
+     * @param staticFiles URL paths of the client files
+     * @returns Module source
+     */
+    bootstrap: (staticFiles: string[]) => string;
+}
+
+/**
+ * Server bundles of the deployment targets
+ *
+ * - `node`: a standalone server using `@hono/node-server`, also serving the client files
+ * - `cloudflare`: a Pages `_worker.js` in the client directory, passing client files to `ASSETS`
+ * - `vercel`: an Edge Function, the client directory is served by the platform
+ * - `netlify`: an Edge Function, the client directory is served by the platform
+ */
+export const SERVER_TARGETS: Record<DeploymentTarget, ServerTarget> = {
+    node: {
+        outfile: 'server.js',
+        runtime: 'node',
+        bootstrap: () => `
+import { fileURLToPath } from 'url';
+import path from 'path';
+import { serve } from '@hono/node-server';
+import { serveStatic } from '@hono/node-server/serve-static';
+
+// Static files are looked up relative to the working directory
+const serveClient = serveStatic({
+    root: path.relative(process.cwd(), fileURLToPath(new URL('./client', import.meta.url)))
+});
+
+const app = await createApp([{
+    name: 'static',
+    handler: async (c, next) => {
+        const response = await serveClient(c, next);
+
+        if (response) {
+            c.res = response;
+        }
+    }
+}]);
+
+const port = Number(process.env.PORT) || 3000;
+const hostname = process.env.HOST || '0.0.0.0';
+
+serve({ fetch: app.fetch, port, hostname }, info => {
+    console.log(\`Server listening on http://\${hostname}:\${info.port}\`);
+});
+`
+    },
+    cloudflare: {
+        outfile: 'client/_worker.js',
+        runtime: 'edge',
+        bootstrap: staticFiles => `
+import { cloudflareAdapter } from '@rytestack/server';
+
+const staticFiles = new Set(${JSON.stringify(staticFiles)});
+let handler;
+
+export default {
+    async fetch(request, env, ctx) {
+        if (staticFiles.has(new URL(request.url).pathname)) {
+            return env.ASSETS.fetch(request);
+        }
+
+        handler ??= createApp().then(cloudflareAdapter);
+        return (await handler)(request, env, ctx);
+    }
+};
+`
+    },
+    vercel: {
+        outfile: 'server/index.js',
+        runtime: 'edge',
+        bootstrap: () => `
+import { handle } from 'hono/vercel';
+
+export const config = { runtime: 'edge' };
+
+let handler;
+
+export default async function (request) {
+    handler ??= createApp().then(app => handle(app));
+    return (await handler)(request);
+}
+`
+    },
+    netlify: {
+        outfile: 'server/index.js',
+        runtime: 'edge',
+        bootstrap: () => `
+let app;
+
+export default async function (request, context) {
+    app ??= createApp();
+    return (await app).fetch(request, { context });
+}
+`
+    }
+};
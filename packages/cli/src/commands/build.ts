@@ -3,9 +3,19 @@
  *
  * Handles the production build for Rytestack applications.
  */
+import path from 'path';
 import chalk from 'chalk';
-import { loadProjectConfig } from '../utils';
-import { DeploymentTarget } from '@rytestack/core';
+import { findConfigFile, loadProjectConfig } from '../utils';
+import { buildProject, printBuildSummary } from '../build';
+import {
+    DeploymentTarget,
+    DeploymentTargets,
+    ROUTE_TYPES_FILE,
+    loadEnv,
+    manifestToRoutes,
+    writePlatformRoutingFiles,
+    writeRouteTypes
+} from '@rytestack/core';
 
 interface BuildOptions {
     target?: DeploymentTarget;
@@ -18,13 +28,50 @@ interface BuildOptions {
  */
 export async function build(options: BuildOptions): Promise<void> {
     try {
-        const config = await loadProjectConfig();
+        const config = await loadProjectConfig('production');
         const target = options.target || config.deployment.target;
 
-        console.log(chalk.cyan(`Building ${config.framework} project for ${target}...`));
+        if (!DeploymentTargets.includes(target)) {
+            throw new Error(`Unknown deployment target "${target}", expected one of: ${DeploymentTargets.join(', ')}`);
+        }
 
-        // TODO: Implement the actual build process based on framework and target
-        console.log(chalk.yellow('Build implementation coming soon.'));
+        console.log(chalk.cyan(`Building ${config.framework} project ${config.output === 'static' ? 'as a static site' : `for ${target}`}...`));
+
+        // Load .env files and fail early on missing or invalid variables
+        const env = await loadEnv({ mode: 'production', schema: config.env });
+        const configFile = await findConfigFile();
+
+        // Bundle the client and server, writing the route and asset manifests
+        const { manifest, assets, clientOutDir, serverFile, staticPaths } = await buildProject({ config, target, env, configFile });
+        console.log(chalk.gray(`Built ${manifest.routes.length} pages and ${manifest.apiRoutes.length} API routes.`));
+
+        if (staticPaths && manifest.apiRoutes.length > 0) {
+            console.log(chalk.yellow(`API routes aren't served with static output: ${manifest.apiRoutes.map(route => route.path).join(', ')}`));
+        }
+
+        // Refresh the route types used by href() and Link
+        await writeRouteTypes(manifestToRoutes(manifest).routes, ROUTE_TYPES_FILE, { configFile });
+
+        // Let the platform apply redirects, rewrites and headers where it can,
+        // Netlify and Cloudflare read them from the directory they serve, Vercel from the project root
+        const routingDir = target === 'netlify' || target === 'cloudflare' ? clientOutDir : process.cwd();
+        const routing = await writePlatformRoutingFiles(routingDir, config, target);
+
+        if (routing.files.length > 0) {
+            console.log(chalk.gray(`Routing rules written to ${routing.files.map(file => path.basename(file)).join(', ')}.`));
+        }
+
+        if (routing.skipped.length > 0) {
+            console.log(chalk.yellow(`Rules for ${routing.skipped.join(', ')} can't be written for ${target}, the server applies them instead.`));
+        }
+
+        await printBuildSummary(manifest, assets, clientOutDir);
+
+        if (staticPaths) {
+            console.log(chalk.green(`\nBuild complete. Pre-rendered ${staticPaths.length} pages to ${path.relative(process.cwd(), clientOutDir)}`));
+        } else {
+            console.log(chalk.green(`\nBuild complete. Server entry: ${path.relative(process.cwd(), serverFile!)}`));
+        }
 
     } catch (error) {
         console.error(chalk.red(`Error building project: ${error instanceof Error ? error.message : String(error)}`));
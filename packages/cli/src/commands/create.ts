@@ -75,7 +75,9 @@ export async function create(name: string, options: CreateOptions): Promise<void
             },
             dependencies: {
                 [`@rytestack/${framework}`]: 'latest',
-                '@rytestack/core': 'latest'
+                '@rytestack/core': 'latest',
+                '@rytestack/server': 'latest',
+                '@hono/node-server': '^1.3.0'
             },
             devDependencies: {
                 '@rytestack/cli': 'latest',
@@ -83,13 +85,16 @@ export async function create(name: string, options: CreateOptions): Promise<void
             }
         });
 
-        // Create rytestack.config.js
+        // Create rytestack.config.ts
         const configContent = `/**
  * @fileoverview Rytestack configuration
  * 
  * This file contains the configuration for your Rytestack application.
+ * Settings for a single mode can go in rytestack.config.production.ts.
  */
-module.exports = {
+import { defineConfig } from '@rytestack/core';
+
+export default defineConfig({
   framework: '${framework}',
   srcDir: './src',
   outDir: './dist',
@@ -119,10 +124,10 @@ module.exports = {
     locales: ['en'],
     autoDetect: true
   }
-};
+});
 `;
 
-        await fs.writeFile(path.join(projectDir, 'rytestack.config.js'), configContent, 'utf-8');
+        await fs.writeFile(path.join(projectDir, 'rytestack.config.ts'), configContent, 'utf-8');
 
         // Create src directory structure
         await ensureDir(path.join(projectDir, 'src'));
@@ -180,7 +185,7 @@ async function createSampleFiles(projectDir: string, framework: Framework): Prom
                 '@/*': ['./src/*']
             }
         },
-        include: ['src/**/*'],
+        include: ['src/**/*', 'rytestack.config*.ts', '.rytestack/types/**/*.d.ts'],
         exclude: ['node_modules', 'dist']
     };
 
@@ -193,6 +198,7 @@ node_modules/
 # build output
 dist/
 .turbo/
+.rytestack/
 
 # environment variables
 .env
@@ -18,7 +18,7 @@ interface DeployOptions {
  */
 export async function deploy(options: DeployOptions): Promise<void> {
     try {
-        const config = await loadProjectConfig();
+        const config = await loadProjectConfig('production');
         const target = options.target || config.deployment.target;
 
         console.log(chalk.cyan(`Deploying ${config.framework} project to ${target}...`));
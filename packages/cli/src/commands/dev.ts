@@ -3,8 +3,13 @@
  *
  * Handles the development server for Rytestack applications.
  */
+import path from 'path';
 import chalk from 'chalk';
-import { loadProjectConfig } from '../utils';
+import chokidar from 'chokidar';
+import { ROUTE_TYPES_FILE, RytestackConfig, loadEnv, manifestToRoutes, writeRouteTypes } from '@rytestack/core';
+import { DevServer, createDevServer } from '@rytestack/server';
+import { findConfigFile, loadProjectConfig } from '../utils';
+import { DevBuild, DevBuildResult, createDevBuild, loadDevHandlers } from '../build';
 
 interface DevOptions {
     port?: string;
@@ -18,18 +23,135 @@ interface DevOptions {
  */
 export async function dev(options: DevOptions): Promise<void> {
     try {
-        const config = await loadProjectConfig();
+        const config = await loadProjectConfig('development');
         const port = options.port ? parseInt(options.port, 10) : 3000;
         const host = options.host || 'localhost';
 
         console.log(chalk.cyan(`Starting development server for ${config.framework} project...`));
-        console.log(chalk.gray(`Server will be available at http://${host}:${port}`));
 
-        // TODO: Implement the actual dev server based on framework
-        console.log(chalk.yellow('Dev server implementation coming soon.'));
+        // Load .env files and fail early on missing or invalid variables
+        const env = await loadEnv({ mode: 'development', schema: config.env });
+        const configFile = await findConfigFile();
 
+        // Bundle the client and server once before listening
+        const devBuild = await createDevBuild({ config, env });
+        const result = await devBuild.rebuild();
+        await updateRouteTypes(result, configFile);
+
+        const devServer = createDevServer({
+            config,
+            port,
+            host,
+            staticDirs: [config.publicDir, path.relative(process.cwd(), result.clientOutDir)],
+            ...await loadDevHandlers(result, config)
+        });
+
+        await devServer.start();
+
+        watchSources(config, devBuild, devServer, configFile);
+
+        const shutdown = async () => {
+            await devBuild.dispose();
+            await devServer.close();
+            process.exit(0);
+        };
+
+        process.once('SIGINT', shutdown);
+        process.once('SIGTERM', shutdown);
     } catch (error) {
         console.error(chalk.red(`Error starting development server: ${error instanceof Error ? error.message : String(error)}`));
         process.exit(1);
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Regenerates the route types used by href() and Link
+ *
+ * @param result Development build result
+ * @param configFile Project config file, used to type environment variables
+ */
+async function updateRouteTypes(result: DevBuildResult, configFile?: string): Promise<void> {
+    if (await writeRouteTypes(manifestToRoutes(result.manifest).routes, ROUTE_TYPES_FILE, { configFile })) {
+        console.log(chalk.gray('Route types updated.'));
+    }
+}
+
+/**
+ * Rebuilds the project when files under the source directory change
+ *
+ * Adding or removing files re-discovers the routes and regenerates the
+ * route types. Once the new handlers are in place, connected browsers hot
+ * swap the changed components, or reload when that isn't possible.
+ *
+ * @param config Project configuration
+ * @param devBuild Incremental development build
+ * @param devServer Running development server
+ * @param configFile Project config file, used to type environment variables
+ */
+function watchSources(config: RytestackConfig, devBuild: DevBuild, devServer: DevServer, configFile?: string): void {
+    let routesChanged = false;
+    let changedFiles = new Set<string>();
+    let building: Promise<void> | undefined;
+    let pending = false;
+
+    const rebuild = async () => {
+        const updateRoutes = routesChanged;
+        const files = changedFiles;
+        routesChanged = false;
+        changedFiles = new Set();
+
+        try {
+            const startTime = Date.now();
+            const result = await devBuild.rebuild(files);
+
+            if (updateRoutes) {
+                await updateRouteTypes(result, configFile);
+            }
+
+            // Added and removed routes change the router, which needs a reload
+            devServer.update(await loadDevHandlers(result, config), updateRoutes ? undefined : result.hotUpdate);
+            console.log(chalk.gray(`Rebuilt in ${Date.now() - startTime}ms.`));
+        } catch (error) {
+            // Keep serving the last successful build, the next change may fix the problem
+            console.error(chalk.red(`Error rebuilding: ${error instanceof Error ? error.message : String(error)}`));
+
+            // The next rebuild also covers the changes of this one
+            routesChanged ||= updateRoutes;
+            files.forEach(file => changedFiles.add(file));
+        }
+    };
+
+    // Run one rebuild at a time, changes made during a rebuild trigger another one
+    const runRebuild = () => {
+        if (building) {
+            pending = true;
+            return;
+        }
+
+        building = rebuild().finally(() => {
+            building = undefined;
+
+            if (pending) {
+                pending = false;
+                runRebuild();
+            }
+        });
+    };
+
+    // Debounce bursts of changes (e.g. moving a folder)
+    let timer: NodeJS.Timeout | undefined;
+    const scheduleRebuild = (event: string, file: string) => {
+        if (event === 'add' || event === 'unlink' || event === 'addDir' || event === 'unlinkDir') {
+            routesChanged = true;
+        }
+
+        changedFiles.add(file);
+
+        clearTimeout(timer);
+        timer = setTimeout(runRebuild, 100);
+    };
+
+    chokidar
+        .watch(config.srcDir, { ignoreInitial: true })
+        .on('all', scheduleRebuild);
+}
@@ -4,14 +4,14 @@
  * Common utilities used by CLI commands.
  */
 import path from 'path';
-import { resolvePath, fileExists, RytestackConfig, loadConfig, DEFAULT_CONFIG } from '@rytestack/core';
+import { resolvePath, fileExists, RytestackConfig, ConfigMode, loadConfig, validateConfig } from '@rytestack/core';
 
 /**
- * Loads the project configuration
+ * Finds the project's config file
  *
- * @returns Project configuration
+ * @returns Absolute path to `rytestack.config.*`, or undefined
  */
-export async function loadProjectConfig(): Promise<RytestackConfig> {
+export async function findConfigFile(): Promise<string | undefined> {
     const cwd = process.cwd();
     const configPaths = [
         path.join(cwd, 'rytestack.config.js'),
@@ -22,10 +22,26 @@ export async function loadProjectConfig(): Promise<RytestackConfig> {
 
     for (const configPath of configPaths) {
         if (await fileExists(configPath)) {
-            return loadConfig(configPath);
+            return configPath;
         }
     }
 
+    return undefined;
+}
+
+/**
+ * Loads the project configuration
+ *
+ * @param mode Mode to load the configuration for, selects `rytestack.config.<mode>.*` overlays
+ * @returns Project configuration
+ */
+export async function loadProjectConfig(mode?: ConfigMode): Promise<RytestackConfig> {
+    const configPath = await findConfigFile();
+
+    if (configPath) {
+        return loadConfig(configPath, { mode });
+    }
+
     console.warn('No configuration file found, using defaults.');
-    return DEFAULT_CONFIG;
-}
\ No newline at end of file
+    return validateConfig({ mode });
+}
@@ -0,0 +1,457 @@
+/**
+ * @fileoverview Static module analysis for Rytestack
+ *
+ * Inspects page and API modules at build time without executing them,
+ * so route information can be collected before any user code runs.
+ */
+import path from 'path';
+import fs from 'fs/promises';
+import { build, transform, Loader } from 'esbuild';
+import { parse } from 'acorn';
+import type { Expression, Identifier, Literal, Node, Program, SpreadElement } from 'acorn';
+
+/**
+ * HTTP methods an API route module can export handlers for
+ */
+export const HTTP_METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'] as const;
+
+/**
+ * HTTP method supported by API routes
+ */
+export type HttpMethod = typeof HTTP_METHODS[number];
+
+/**
+ * Aliases for methods whose names are reserved words in JavaScript
+ */
+const METHOD_ALIASES: Record<string, HttpMethod> = {
+    del: 'DELETE'
+};
+
+/**
+ * Gets the names of all exports of a module
+ *
+ * The module is parsed by esbuild without bundling its imports, so
+ * re-exports from other modules (`export * from`) are not included.
+ *
+ * @param filePath Absolute path to the module
+ * @returns Exported names
+ */
+export async function getModuleExports(filePath: string): Promise<string[]> {
+    const result = await build({
+        entryPoints: [filePath],
+        bundle: false,
+        write: false,
+        metafile: true,
+        format: 'esm',
+        outdir: 'out',
+        logLevel: 'silent'
+    });
+
+    const output = Object.values(result.metafile.outputs).find(output => output.entryPoint);
+
+    return output ? output.exports : [];
+}
+
+/**
+ * Maps an export name to the HTTP method it handles
+ *
+ * @param exportName Exported name (e.g., 'get', 'POST', 'del')
+ * @returns HTTP method, or undefined if the export is not a method handler
+ */
+export function exportNameToHttpMethod(exportName: string): HttpMethod | undefined {
+    const method = exportName.toUpperCase();
+
+    if ((HTTP_METHODS as readonly string[]).includes(method)) {
+        return method as HttpMethod;
+    }
+
+    return METHOD_ALIASES[exportName.toLowerCase()];
+}
+
+/**
+ * Detects the HTTP methods handled by an API route module
+ *
+ * @param filePath Absolute path to the API module
+ * @returns Handled HTTP methods in canonical order
+ */
+export async function getExportedHttpMethods(filePath: string): Promise<HttpMethod[]> {
+    const exports = await getModuleExports(filePath);
+    const methods = new Set(exports.map(exportNameToHttpMethod).filter(Boolean));
+
+    return HTTP_METHODS.filter(method => methods.has(method));
+}
+
+/**
+ * Gets the value of the `Allow` header for a set of handled methods
+ *
+ * GET handlers also answer HEAD requests.
+ *
+ * @param methods Handled HTTP methods
+ * @returns Comma-separated list of allowed methods
+ */
+export function getAllowHeader(methods: string[]): string {
+    const allowed = new Set(methods.map(method => method.toUpperCase()));
+
+    if (allowed.has('GET')) {
+        allowed.add('HEAD');
+    }
+
+    return HTTP_METHODS.filter(method => allowed.has(method)).join(', ');
+}
+
+/**
+ * Error thrown when a static export can't be evaluated without running the module
+ */
+export class StaticAnalysisError extends Error {
+    constructor(message: string, readonly filePath: string) {
+        super(`${message} in ${filePath}`);
+        this.name = 'StaticAnalysisError';
+    }
+}
+
+/**
+ * Evaluates an expression that is a literal (object, array, string, number, boolean, null)
+ *
+ * Only values that can be known without executing code are supported.
+ *
+ * @param node Expression node
+ * @returns Value of the literal
+ * @throws Error if the expression isn't a literal
+ */
+function evaluateLiteral(node: Expression | SpreadElement | null): any {
+    switch (node?.type) {
+        case 'Literal':
+            if (node.regex || node.bigint !== undefined) {
+                throw new Error(`Unsupported literal ${node.raw}`);
+            }
+            return node.value;
+
+        case 'TemplateLiteral':
+            if (node.expressions.length > 0) {
+                throw new Error('Template literals with expressions are not supported');
+            }
+            return node.quasis[0].value.cooked;
+
+        case 'UnaryExpression':
+            if ((node.operator === '-' || node.operator === '+') && node.argument.type === 'Literal' && typeof node.argument.value === 'number') {
+                return node.operator === '-' ? -node.argument.value : node.argument.value;
+            }
+
+            // esbuild writes `undefined` as `void 0`
+            if (node.operator === 'void' && node.argument.type === 'Literal') {
+                return undefined;
+            }
+            throw new Error(`Unsupported expression "${node.operator}"`);
+
+        case 'Identifier':
+            if (node.name === 'undefined') {
+                return undefined;
+            }
+            throw new Error(`Unsupported reference to "${node.name}"`);
+
+        case 'ArrayExpression':
+            return node.elements.map(element => {
+                if (!element || element.type === 'SpreadElement') {
+                    throw new Error('Array holes and spread elements are not supported');
+                }
+                return evaluateLiteral(element);
+            });
+
+        case 'ObjectExpression': {
+            const result: Record<string, any> = {};
+
+            for (const property of node.properties) {
+                if (property.type === 'SpreadElement' || property.computed || property.kind !== 'init' || property.method || property.shorthand) {
+                    throw new Error('Only plain properties are supported in objects');
+                }
+
+                const key = property.key.type === 'Identifier' ? property.key.name : evaluateLiteral(property.key);
+                result[String(key)] = evaluateLiteral(property.value);
+            }
+
+            return result;
+        }
+
+        default:
+            throw new Error(`Unsupported expression of type ${node?.type}`);
+    }
+}
+
+/**
+ * Gets the name of an export or import specifier, which may be a string (`export { a as "b" }`)
+ */
+function getSpecifierName(node: Identifier | Literal): string {
+    return node.type === 'Identifier' ? node.name : String(node.value);
+}
+
+/**
+ * Reads the values of literal exports of a module without executing it
+ *
+ * Supports `export const name = <literal>` and top-level constants
+ * exported by name (`export { local as name }`), where the literal is
+ * built from objects, arrays, strings, numbers, booleans and null. The
+ * module is parsed after esbuild has stripped its types.
+ *
+ * @param filePath Absolute path to the module
+ * @param names Export names to read
+ * @returns Values of the exports that are present
+ * @throws StaticAnalysisError if an export is present but isn't a literal
+ *
+ * @example
+ * ```typescript
+ * // pages/blog.tsx: export const config = { ssr: false, revalidate: 60 };
+ * await getStaticExports('pages/blog.tsx', ['config']); // { config: { ssr: false, revalidate: 60 } }
+ * ```
+ */
+export async function getStaticExports(filePath: string, names: string[]): Promise<Record<string, any>> {
+    const source = await fs.readFile(filePath, 'utf-8');
+    const extension = path.extname(filePath).slice(1);
+    const loader = (['js', 'jsx', 'ts', 'tsx'].includes(extension) ? extension : 'tsx') as Loader;
+
+    // Strip types and compile JSX, so the parser only sees plain JavaScript
+    const { code } = await transform(source, { loader, jsx: 'automatic', format: 'esm' });
+    const program = parse(code, { ecmaVersion: 'latest', sourceType: 'module' });
+
+    // Top-level variable initializers by local name, and the local names of exports
+    const initializers = new Map<string, Expression | null | undefined>();
+    const localNames = new Map<string, string>();
+
+    for (const statement of program.body) {
+        const declaration = statement.type === 'ExportNamedDeclaration' ? statement.declaration : statement;
+
+        if (declaration?.type === 'VariableDeclaration') {
+            for (const declarator of declaration.declarations) {
+                if (declarator.id.type === 'Identifier') {
+                    initializers.set(declarator.id.name, declarator.init);
+
+                    if (statement.type === 'ExportNamedDeclaration') {
+                        localNames.set(declarator.id.name, declarator.id.name);
+                    }
+                }
+            }
+        }
+
+        if (statement.type === 'ExportNamedDeclaration' && !statement.source) {
+            for (const specifier of statement.specifiers) {
+                localNames.set(getSpecifierName(specifier.exported), getSpecifierName(specifier.local));
+            }
+        }
+    }
+
+    const values: Record<string, any> = {};
+
+    for (const name of names) {
+        const local = localNames.get(name);
+
+        if (local === undefined || !initializers.has(local)) {
+            continue;
+        }
+
+        try {
+            values[name] = evaluateLiteral(initializers.get(local) ?? null);
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new StaticAnalysisError(`Export "${name}" must be a literal value (${reason})`, filePath);
+        }
+    }
+
+    return values;
+}
+
+/**
+ * Server-only code to remove from a module
+ */
+export interface ServerCodeOptions {
+    /**
+     * Static properties assigned at the top level (e.g. `Page.getInitialData = ...`),
+     * their values are replaced with functions throwing when called
+     */
+    properties: string[];
+
+    /**
+     * Named exports, removed from the module
+     */
+    exports: string[];
+}
+
+/**
+ * Range of code replaced with other code
+ */
+interface CodeEdit {
+    start: number;
+    end: number;
+    text: string;
+}
+
+/**
+ * Calls a function for every node of a syntax tree, with its parent
+ */
+function walk(node: Node, visit: (node: Node, parent?: Node) => void, parent?: Node): void {
+    visit(node, parent);
+
+    for (const value of Object.values(node)) {
+        for (const child of Array.isArray(value) ? value : [value]) {
+            if (child && typeof child === 'object' && typeof child.type === 'string') {
+                walk(child, visit, node);
+            }
+        }
+    }
+}
+
+/**
+ * Checks whether an identifier refers to a binding, rather than naming a property or label
+ */
+function isReference(node: Identifier, parent?: any): boolean {
+    switch (parent?.type) {
+        case 'MemberExpression':
+            return parent.object === node || parent.computed;
+        case 'Property':
+        case 'MethodDefinition':
+        case 'PropertyDefinition':
+            return parent.key !== node || parent.computed;
+        case 'ExportSpecifier':
+            return parent.local === node;
+        case 'LabeledStatement':
+        case 'BreakStatement':
+        case 'ContinueStatement':
+        case 'MetaProperty':
+            return false;
+        default:
+            return true;
+    }
+}
+
+/**
+ * Gets the names declared by a top-level statement, when it can be removed as a whole
+ */
+function getDeclaredNames(statement: Node): string[] {
+    const declaration: any = statement.type === 'ExportNamedDeclaration' ? undefined : statement;
+
+    if (declaration?.type === 'FunctionDeclaration' || declaration?.type === 'ClassDeclaration') {
+        return declaration.id ? [declaration.id.name] : [];
+    }
+
+    if (declaration?.type === 'VariableDeclaration' && declaration.declarations.every((declarator: any) => declarator.id.type === 'Identifier')) {
+        return declaration.declarations.map((declarator: any) => declarator.id.name);
+    }
+
+    return [];
+}
+
+/**
+ * Replaces code, keeping the line count so source maps of the code stay usable
+ */
+function applyEdits(code: string, edits: CodeEdit[]): string {
+    let result = code;
+
+    for (const { start, end, text } of [...edits].sort((a, b) => b.start - a.start)) {
+        const lines = code.slice(start, end).split('\n').length - text.split('\n').length;
+
+        result = `${result.slice(0, start)}${text}${'\n'.repeat(Math.max(lines, 0))}${result.slice(end)}`;
+    }
+
+    return result;
+}
+
+/**
+ * Removes server-only code from a module, so it can be bundled for the browser
+ *
+ * Top-level functions, classes and variables only used by the removed code
+ * are removed with it. Imports aren't, bundle the result as TypeScript,
+ * which drops unused imports, to leave server modules out.
+ *
+ * @param code JavaScript module, without types or JSX
+ * @param options Server-only properties and exports
+ * @returns Module without the server-only code
+ *
+ * @example
+ * ```typescript
+ * stripServerCode('Page.getInitialData = () => db.get();', { properties: ['getInitialData'], exports: [] });
+ * // 'Page.getInitialData = () => { throw new Error(...); };'
+ * ```
+ */
+export function stripServerCode(code: string, { properties, exports }: ServerCodeOptions): string {
+    const program = parse(code, { ecmaVersion: 'latest', sourceType: 'module' }) as Program;
+    const edits: CodeEdit[] = [];
+    const remove = (node: Node, text = '') => edits.push({ start: node.start, end: node.end, text });
+
+    for (const statement of program.body) {
+        if (statement.type === 'ExpressionStatement' && statement.expression.type === 'AssignmentExpression') {
+            const { left, right } = statement.expression;
+            const property = left.type === 'MemberExpression' && !left.computed && left.property.type === 'Identifier'
+                ? left.property.name
+                : undefined;
+
+            if (property && properties.includes(property)) {
+                remove(right, `() => { throw new Error(${JSON.stringify(`${property}() only runs on the server`)}); }`);
+            }
+        }
+
+        if (statement.type !== 'ExportNamedDeclaration') {
+            continue;
+        }
+
+        const { declaration, specifiers } = statement;
+
+        if (declaration?.type === 'FunctionDeclaration' && exports.includes(declaration.id.name)) {
+            remove(statement);
+        }
+
+        if (declaration?.type === 'VariableDeclaration') {
+            const removed = declaration.declarations.filter(declarator => declarator.id.type === 'Identifier' && exports.includes(declarator.id.name));
+
+            if (removed.length === declaration.declarations.length) {
+                remove(statement);
+            } else {
+                removed.forEach(declarator => declarator.init && remove(declarator.init, 'void 0'));
+            }
+        }
+
+        const removed = specifiers.filter(specifier => exports.includes(getSpecifierName(specifier.exported)));
+
+        if (removed.length > 0 && removed.length === specifiers.length) {
+            remove(statement);
+        } else {
+            // A trailing comma is fine in export lists
+            removed.forEach(specifier => edits.push({
+                start: specifier.start,
+                end: code.slice(specifier.end).match(/^\s*,/) ? specifier.end + code.slice(specifier.end).indexOf(',') + 1 : specifier.end,
+                text: ''
+            }));
+        }
+    }
+
+    // References to top-level bindings, the removed code's included
+    const references: Identifier[] = [];
+
+    walk(program, (node, parent) => {
+        if (node.type === 'Identifier' && isReference(node as Identifier, parent)) {
+            references.push(node as Identifier);
+        }
+    });
+
+    const isRemoved = (node: Node) => edits.some(edit => node.start >= edit.start && node.end <= edit.end);
+
+    // Remove declarations only referenced by removed code, until none are left
+    for (let changed = edits.length > 0; changed;) {
+        changed = false;
+
+        for (const statement of program.body) {
+            const names = getDeclaredNames(statement);
+
+            if (names.length === 0 || isRemoved(statement)) {
+                continue;
+            }
+
+            const uses = references.filter(reference => names.includes(reference.name)
+                && (reference.start < statement.start || reference.end > statement.end));
+
+            if (uses.length > 0 && uses.every(isRemoved)) {
+                remove(statement);
+                changed = true;
+            }
+        }
+    }
+
+    return applyEdits(code, edits);
+}
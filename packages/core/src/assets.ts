@@ -0,0 +1,177 @@
+/**
+ * @fileoverview Asset manifest for Rytestack
+ *
+ * Maps the client entry and every page route to the scripts and styles
+ * the browser needs, so the server can reference hashed build outputs.
+ */
+import path from 'path';
+import type { Metafile } from 'esbuild';
+import { RouteManifest } from './manifest';
+import { writeJson } from './utils';
+
+/**
+ * File name of the asset manifest in the output directory
+ */
+export const ASSET_MANIFEST_FILE = 'asset-manifest.json';
+
+/**
+ * Assets of a client chunk
+ */
+export interface ChunkAssets {
+    /**
+     * URL of the chunk
+     */
+    file: string;
+
+    /**
+     * URLs of the chunks it statically imports, directly or indirectly
+     */
+    imports: string[];
+
+    /**
+     * URLs of its stylesheets
+     */
+    css: string[];
+}
+
+/**
+ * Client assets of an application
+ */
+export interface AssetManifest {
+    /**
+     * Public path prefixed to every URL
+     */
+    publicPath: string;
+
+    /**
+     * Client entry
+     */
+    entry: ChunkAssets;
+
+    /**
+     * Page chunks keyed by route path
+     */
+    routes: Record<string, ChunkAssets>;
+}
+
+/**
+ * Options for creating an asset manifest
+ */
+export interface CreateAssetManifestOptions {
+    /**
+     * Metafile of the client build
+     */
+    metafile: Metafile;
+
+    /**
+     * Output directory of the client build
+     */
+    outDir: string;
+
+    /**
+     * Client entry file
+     */
+    entryPoint: string;
+
+    /**
+     * Route manifest with page chunks (see buildRouteManifest)
+     */
+    manifest: RouteManifest;
+
+    /**
+     * Public path the client output directory is served at
+     */
+    publicPath?: string;
+}
+
+/**
+ * Converts a path to a portable path relative to a directory
+ */
+function toRelative(from: string, filePath: string): string {
+    return path.relative(from, filePath).replace(/\\/g, '/');
+}
+
+/**
+ * Collects the assets of an output of the client build
+ *
+ * @param metafile Metafile of the client build
+ * @param outputPath Output path as used in the metafile
+ * @param toUrl Converts an output path to its URL
+ * @returns Chunk assets
+ */
+function getChunkAssets(metafile: Metafile, outputPath: string, toUrl: (outputPath: string) => string): ChunkAssets {
+    const imports = new Set<string>();
+    const css = new Set<string>();
+
+    const visit = (current: string) => {
+        const output = metafile.outputs[current];
+
+        if (output?.cssBundle) {
+            css.add(toUrl(output.cssBundle));
+        }
+
+        for (const entry of output?.imports || []) {
+            // Dynamic imports are loaded on demand, not with the chunk
+            if (entry.kind === 'import-statement' && !entry.external && !imports.has(entry.path)) {
+                imports.add(entry.path);
+                visit(entry.path);
+            }
+        }
+    };
+
+    visit(outputPath);
+
+    return {
+        file: toUrl(outputPath),
+        imports: [...imports].map(toUrl),
+        css: [...css]
+    };
+}
+
+/**
+ * Creates an asset manifest from the client build
+ *
+ * @param options Manifest options
+ * @returns Asset manifest
+ */
+export function createAssetManifest({
+                                        metafile,
+                                        outDir,
+                                        entryPoint,
+                                        manifest,
+                                        publicPath = '/'
+                                    }: CreateAssetManifestOptions): AssetManifest {
+    const base = publicPath.endsWith('/') ? publicPath : `${publicPath}/`;
+    const toUrl = (outputPath: string) => `${base}${toRelative(path.resolve(outDir), path.resolve(outputPath))}`;
+
+    const entryInput = toRelative(process.cwd(), path.resolve(entryPoint));
+    const entryOutput = Object.keys(metafile.outputs).find(outputPath => metafile.outputs[outputPath].entryPoint === entryInput);
+
+    if (!entryOutput) {
+        throw new Error(`Client entry not found in the build output: ${entryPoint}`);
+    }
+
+    const routes: Record<string, ChunkAssets> = {};
+
+    for (const route of manifest.routes) {
+        if (route.chunk) {
+            routes[route.path] = getChunkAssets(metafile, toRelative(process.cwd(), path.resolve(outDir, route.chunk)), toUrl);
+        }
+    }
+
+    return {
+        publicPath: base,
+        entry: getChunkAssets(metafile, entryOutput, toUrl),
+        routes
+    };
+}
+
+/**
+ * Writes an asset manifest to the output directory
+ *
+ * @param outDir Output directory
+ * @param manifest Asset manifest
+ */
+export async function writeAssetManifest(outDir: string, manifest: AssetManifest): Promise<void> {
+    await writeJson(path.join(outDir, ASSET_MANIFEST_FILE), manifest);
+}
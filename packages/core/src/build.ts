@@ -4,22 +4,33 @@
  * Handles the build process for Rytestack applications,
  * including bundling, optimization, and code generation.
  */
-import { BuildOptions } from 'esbuild';
+import path from 'path';
+import fs from 'fs/promises';
+import { builtinModules } from 'module';
+import { BuildFailure, BuildOptions, Plugin, build as esbuild } from 'esbuild';
 import { RytestackConfig } from './config';
-
-// Import optimizations if available
-let bundlerModule: any;
-try {
-    bundlerModule = require('@rytestack/bundler');
-} catch (error) {
-    // Optional dependency, ignore if not available
-}
+import { Route } from './routing';
+import { getStaticExports, stripServerCode } from './analysis';
+import { LoadedEnv, createEnvDefines, envPlugin, getPrivateEnvErrors } from './env';
+import { applyBuildHooks } from './plugins';
 
 /**
  * Build mode (development or production)
  */
 export type BuildMode = 'development' | 'production';
 
+/**
+ * Transform applied to the project's own modules in client bundles
+ *
+ * Gets the module compiled to JavaScript (with an inline source map in
+ * development builds) and returns the code to bundle instead.
+ *
+ * @param code Compiled module
+ * @param filePath Absolute path to the module
+ * @returns Transformed code
+ */
+export type ClientModuleTransform = (code: string, filePath: string) => string | Promise<string>;
+
 /**
  * Common build options
  */
@@ -45,28 +56,159 @@ export interface CommonBuildOptions {
     outdir: string;
 
     /**
-     * Enable bundle analysis
+     * Loaded environment variables, only public ones reach client bundles
      */
-    analyze?: boolean;
+    env?: LoadedEnv;
 
     /**
-     * Performance optimizations
+     * Transforms of the project's own modules, client builds only
      */
-    optimizations?: {
-        /**
-         * Tree-shaking enhancements
-         */
-        treeShaking?: boolean;
-
-        /**
-         * Dynamic imports optimization
-         */
-        dynamicImports?: boolean;
-
-        /**
-         * Dependency deduplication
-         */
-        deduplication?: boolean;
+    transforms?: ClientModuleTransform[];
+}
+
+/**
+ * Static page properties that only run on the server, removed from client bundles
+ */
+const SERVER_ONLY_PAGE_PROPERTIES = ['getInitialData', 'action'];
+
+/**
+ * Page exports that only run on the server, removed from client bundles
+ */
+const SERVER_ONLY_PAGE_EXPORTS = ['getStaticPaths'];
+
+/**
+ * Packages Rytestack only uses at build time or on the server
+ */
+const SERVER_ONLY_PACKAGES = ['esbuild', 'globby', 'chokidar', 'acorn'];
+
+/**
+ * Creates an esbuild plugin replacing server-only modules with empty ones in client bundles
+ *
+ * Framework packages share modules between the server and the browser, so
+ * their Node.js imports are reachable from client code without being used
+ * there. Imports from the project's own sources still fail to resolve.
+ *
+ * @param srcDir Root directory of the source code
+ * @returns esbuild plugin
+ */
+export function serverOnlyModulesPlugin(srcDir: string): Plugin {
+    const names = [...builtinModules, ...SERVER_ONLY_PACKAGES].map(name => name.replace(/[/.]/g, '\\$&'));
+    const filter = new RegExp(`^(node:)?(${names.join('|')})$`);
+    const root = path.resolve(srcDir);
+
+    return {
+        name: 'rytestack-server-only-modules',
+        setup(build) {
+            build.onResolve({ filter }, args => (
+                args.importer.startsWith(root) ? undefined : { path: args.path, namespace: 'rytestack-server-only' }
+            ));
+
+            build.onLoad({ filter: /.*/, namespace: 'rytestack-server-only' }, () => ({
+                contents: 'module.exports = {};',
+                loader: 'js'
+            }));
+        }
+    };
+}
+
+/**
+ * Options for the client modules plugin
+ */
+export interface ClientModulesPluginOptions {
+    /**
+     * Root directory of the source code
+     */
+    srcDir: string;
+
+    /**
+     * Loaded variables, server-only ones can't be used by client modules
+     */
+    env: LoadedEnv;
+
+    /**
+     * Transforms of the project's own modules
+     */
+    transforms?: ClientModuleTransform[];
+}
+
+/**
+ * Creates an esbuild plugin preparing the project's own modules for client bundles
+ *
+ * Pages are bundled for the browser with their loaders, actions and
+ * `getStaticPaths` removed, along with the imports only they used, so
+ * database clients and secrets never reach the client. The removed loaders
+ * stay defined, the client uses them to know which pages have data to fetch. Other modules
+ * are only loaded by the plugin when there are transforms to apply.
+ *
+ * Since esbuild uses the first plugin returning contents, the plugin also
+ * runs the server-only environment variable guard of the env plugin.
+ *
+ * @param options Plugin options
+ * @returns esbuild plugin
+ */
+export function clientModulesPlugin({ srcDir, env, transforms = [] }: ClientModulesPluginOptions): Plugin {
+    const root = path.resolve(srcDir);
+    const pagesDir = path.join(root, 'pages');
+
+    return {
+        name: 'rytestack-client-modules',
+        setup(build) {
+            const { jsx, jsxDev, jsxFactory, jsxFragment, jsxImportSource, sourcemap } = build.initialOptions;
+
+            build.onLoad({ filter: /\.[cm]?[jt]sx?$/, namespace: 'file' }, async args => {
+                const isPage = args.path.startsWith(pagesDir + path.sep);
+
+                if (!args.path.startsWith(root + path.sep) || args.path.includes('node_modules') || (!isPage && transforms.length === 0)) {
+                    return undefined;
+                }
+
+                let code: string;
+
+                try {
+                    // Compiles a single module, with the tsconfig.json settings of the project
+                    const result = await esbuild({
+                        entryPoints: [args.path],
+                        bundle: false,
+                        write: false,
+                        format: 'esm',
+                        target: 'esnext',
+                        outdir: 'out',
+                        sourcemap: sourcemap ? 'inline' : false,
+                        jsx,
+                        jsxDev,
+                        jsxFactory,
+                        jsxFragment,
+                        jsxImportSource,
+                        logLevel: 'silent'
+                    });
+
+                    code = result.outputFiles[0].text;
+                } catch (error) {
+                    return { errors: (error as BuildFailure).errors };
+                }
+
+                if (isPage) {
+                    code = stripServerCode(code, { properties: SERVER_ONLY_PAGE_PROPERTIES, exports: SERVER_ONLY_PAGE_EXPORTS });
+                }
+
+                const errors = getPrivateEnvErrors(isPage ? code : await fs.readFile(args.path, 'utf-8'), args.path, env);
+
+                if (errors.length > 0) {
+                    return { errors };
+                }
+
+                for (const transform of transforms) {
+                    code = await transform(code, args.path);
+                }
+
+                return {
+                    contents: code,
+                    // The TypeScript loader drops the imports only the removed code used
+                    loader: isPage ? 'ts' : 'js',
+                    resolveDir: path.dirname(args.path)
+                };
+            });
+        }
     };
 }
 
@@ -82,12 +224,12 @@ export function createClientBuildConfig(options: CommonBuildOptions): BuildOptio
         config,
         entryPoints,
         outdir,
-        analyze = false,
-        optimizations = {}
+        env = { variables: {}, values: {} },
+        transforms
     } = options;
 
     // Base configuration
-    let buildConfig: BuildOptions = {
+    const buildConfig: BuildOptions = {
         entryPoints,
         outdir,
         bundle: true,
@@ -98,38 +240,19 @@ export function createClientBuildConfig(options: CommonBuildOptions): BuildOptio
         sourcemap: mode === 'development',
         metafile: true,
         define: {
+            ...createEnvDefines(env.variables),
             'process.env.NODE_ENV': JSON.stringify(mode),
             'process.env.RYTESTACK_CLIENT': 'true'
-        }
+        },
+        plugins: [
+            clientModulesPlugin({ srcDir: config.srcDir, env, transforms }),
+            envPlugin({ target: 'client', env }),
+            serverOnlyModulesPlugin(config.srcDir)
+        ]
     };
 
-    // Apply optimizations if bundler module is available
-    if (bundlerModule) {
-        // Apply tree-shaking optimizations
-        if (optimizations.treeShaking !== false && bundlerModule.enhanceTreeShaking) {
-            buildConfig = bundlerModule.enhanceTreeShaking(buildConfig, config);
-        }
-
-        // Apply dynamic imports optimizations
-        if (optimizations.dynamicImports !== false && bundlerModule.enhanceDynamicImports) {
-            buildConfig = bundlerModule.enhanceDynamicImports(buildConfig, config);
-        }
-
-        // Apply deduplication optimizations
-        if (optimizations.deduplication !== false && bundlerModule.enhanceDeduplication) {
-            buildConfig = bundlerModule.enhanceDeduplication(buildConfig, config);
-        }
-
-        // Apply bundle analyzer if enabled
-        if (analyze && bundlerModule.enhanceBundleAnalyzer) {
-            buildConfig = bundlerModule.enhanceBundleAnalyzer(buildConfig, config, {
-                enabled: true,
-                openReport: true
-            });
-        }
-    }
-
-    return buildConfig;
+    // Let plugins (e.g. the bundler optimizations) add esbuild plugins and adjust options
+    return applyBuildHooks(buildConfig, config, 'client');
 }
 
 /**
@@ -141,7 +264,7 @@ export function createClientBuildConfig(options: CommonBuildOptions): BuildOptio
 export function createServerBuildConfig(options: CommonBuildOptions): BuildOptions {
     // Server builds typically need less optimization
     // as they're not sent to the client
-    return {
+    const buildConfig: BuildOptions = {
         entryPoints: options.entryPoints,
         outdir: options.outdir,
         bundle: true,
@@ -154,6 +277,33 @@ export function createServerBuildConfig(options: CommonBuildOptions): BuildOptio
         define: {
             'process.env.NODE_ENV': JSON.stringify(options.mode),
             'process.env.RYTESTACK_SERVER': 'true'
-        }
+        },
+        plugins: [envPlugin({ target: 'server', env: options.env || { variables: {}, values: {} } })]
     };
+
+    return applyBuildHooks(buildConfig, options.config, 'server');
+}
+
+/**
+ * Extracts page metadata and configuration from page modules
+ *
+ * Reads the literal `meta` and `config` exports of every page without
+ * importing it, so SSR, caching and SEO generation can use them.
+ *
+ * @param routes Discovered page routes
+ * @returns Routes with `meta` and `config` filled in
+ *
+ * @example
+ * ```typescript
+ * // pages/blog.tsx
+ * export const config = { ssr: false, revalidate: 60 };
+ * export const meta = { title: 'Blog' };
+ * ```
+ */
+export async function extractRouteMetadata(routes: Route[]): Promise<Route[]> {
+    return Promise.all(routes.map(async route => {
+        const { meta = {}, config = {} } = await getStaticExports(route.component, ['meta', 'config']);
+
+        return { ...route, meta, config };
+    }));
 }
\ No newline at end of file
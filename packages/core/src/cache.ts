@@ -0,0 +1,154 @@
+/**
+ * @fileoverview Render cache stores for Rytestack
+ *
+ * Stores for the rendered pages of routes with `revalidate` set, used for
+ * incremental static regeneration.
+ */
+import path from 'path';
+import fs from 'fs/promises';
+import { ensureDir } from './utils';
+
+/**
+ * Rendered page in the cache
+ */
+export interface RenderCacheEntry {
+    /**
+     * Rendered HTML document
+     */
+    html: string;
+
+    /**
+     * Response status
+     */
+    status: number;
+
+    /**
+     * Headers set by the page
+     */
+    headers?: Record<string, string>;
+
+    /**
+     * Time the page was rendered, in milliseconds since the epoch
+     */
+    createdAt: number;
+
+    /**
+     * Time after which the page is re-rendered, in milliseconds since the epoch
+     */
+    expiresAt: number;
+}
+
+/**
+ * Store for rendered pages, keyed by URL path
+ *
+ * Implement it to share the cache between server instances (e.g. in Redis or KV storage).
+ */
+export interface RenderCacheStore {
+    /**
+     * Reads a rendered page
+     *
+     * @param key URL path
+     * @returns Cached entry, or undefined
+     */
+    get: (key: string) => Promise<RenderCacheEntry | undefined>;
+
+    /**
+     * Writes a rendered page
+     *
+     * @param key URL path
+     * @param entry Cache entry
+     */
+    set: (key: string, entry: RenderCacheEntry) => Promise<void>;
+
+    /**
+     * Removes a rendered page, it's rendered again on the next request
+     *
+     * @param key URL path
+     */
+    delete: (key: string) => Promise<void>;
+}
+
+/**
+ * Options for the in-memory store
+ */
+export interface MemoryCacheStoreOptions {
+    /**
+     * Number of pages kept, the least recently written page is dropped first
+     */
+    maxEntries?: number;
+}
+
+/**
+ * Creates a render cache store keeping pages in memory
+ *
+ * Each server instance has its own cache, which is lost on restart.
+ *
+ * @param options Store options
+ * @returns Render cache store
+ */
+export function createMemoryCacheStore({ maxEntries = 1000 }: MemoryCacheStoreOptions = {}): RenderCacheStore {
+    const entries = new Map<string, RenderCacheEntry>();
+
+    return {
+        get: async key => entries.get(key),
+        set: async (key, entry) => {
+            // Re-inserting moves the key to the end of the iteration order
+            entries.delete(key);
+            entries.set(key, entry);
+
+            if (entries.size > maxEntries) {
+                entries.delete(entries.keys().next().value!);
+            }
+        },
+        delete: async key => {
+            entries.delete(key);
+        }
+    };
+}
+
+/**
+ * Options for the filesystem store
+ */
+export interface FileSystemCacheStoreOptions {
+    /**
+     * Directory the pages are written to
+     */
+    dir?: string;
+}
+
+/**
+ * Creates a render cache store writing pages to a directory
+ *
+ * The cache survives restarts and is shared by server instances on the
+ * same filesystem.
+ *
+ * @param options Store options
+ * @returns Render cache store
+ */
+export function createFileSystemCacheStore({ dir = '.rytestack/cache' }: FileSystemCacheStoreOptions = {}): RenderCacheStore {
+    const getFile = (key: string) => path.join(dir, `${encodeURIComponent(key)}.json`);
+
+    return {
+        get: async key => {
+            try {
+                return JSON.parse(await fs.readFile(getFile(key), 'utf-8')) as RenderCacheEntry;
+            } catch (error) {
+                // Missing or partially written entries are rendered again
+                return undefined;
+            }
+        },
+        set: async (key, entry) => {
+            await ensureDir(dir);
+
+            // Written to a temporary file first, so readers never see a partial entry
+            const file = getFile(key);
+            const tempFile = `${file}.${Date.now()}.tmp`;
+
+            await fs.writeFile(tempFile, JSON.stringify(entry), 'utf-8');
+            await fs.rename(tempFile, file);
+        },
+        delete: async key => {
+            await fs.rm(getFile(key), { force: true });
+        }
+    };
+}
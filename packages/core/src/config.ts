@@ -1,6 +1,312 @@
-// Add these to the RytestackConfigSchema
+/**
+ * @fileoverview Configuration system for Rytestack
+ *
+ * Defines the validated shape of `rytestack.config.*` files and loads
+ * them, including per-mode overlays such as `rytestack.config.production.ts`.
+ */
+import path from 'path';
+import fs from 'fs/promises';
+import { pathToFileURL } from 'url';
+import { build } from 'esbuild';
+import { z, ZodTypeAny } from 'zod';
+import { RenderCacheStore } from './cache';
+import { RytestackPlugin, sortPlugins } from './plugins';
+import { fileExists } from './utils';
+
+/**
+ * Frontend frameworks Rytestack has adapters for
+ */
+export const SupportedFrameworks = ['react', 'vue', 'svelte'] as const;
+
+/**
+ * Frontend framework of a project
+ */
+export type Framework = typeof SupportedFrameworks[number];
+
+/**
+ * Platforms Rytestack can build and deploy for
+ */
+export const DeploymentTargets = ['node', 'cloudflare', 'vercel', 'netlify'] as const;
+
+/**
+ * Deployment platform of a project
+ */
+export type DeploymentTarget = typeof DeploymentTargets[number];
+
+/**
+ * Build outputs: `server` renders pages on request, `static` pre-renders
+ * every page to HTML files at build time
+ */
+export const OutputModes = ['server', 'static'] as const;
+
+/**
+ * Build output of a project
+ */
+export type OutputMode = typeof OutputModes[number];
+
+/**
+ * Mode the configuration is loaded for
+ */
+export type ConfigMode = 'development' | 'production';
+
+/**
+ * Request condition for redirects, rewrites and headers
+ *
+ * `value` is a regular expression that must match the whole value,
+ * without it the condition only checks that the value is present.
+ */
+export const RouteConditionSchema = z.object({
+    /**
+     * Part of the request to check
+     */
+    type: z.enum(['header', 'cookie', 'query', 'host']),
+
+    /**
+     * Header, cookie or query parameter name (ignored for `host`)
+     */
+    key: z.string().default(''),
+
+    /**
+     * Pattern the value must match
+     */
+    value: z.string().optional()
+});
+
+/**
+ * Redirect rule
+ *
+ * Sources use the same `[param]` syntax as page files, and the matched
+ * parameters can be used in the destination.
+ *
+ * @example
+ * { source: '/blog/[slug]', destination: '/news/[slug]', permanent: true }
+ */
+export const RedirectRuleSchema = z.object({
+    /**
+     * Path pattern to match (e.g., '/old/[...path]')
+     */
+    source: z.string().startsWith('/'),
+
+    /**
+     * Path or URL to redirect to
+     */
+    destination: z.string(),
+
+    /**
+     * Whether the redirect is permanent (308) or temporary (307)
+     */
+    permanent: z.boolean().default(false),
+
+    /**
+     * Status code to use instead of 307/308
+     */
+    statusCode: z.union([z.literal(301), z.literal(302), z.literal(303), z.literal(307), z.literal(308)]).optional(),
+
+    /**
+     * Conditions that must all match for the rule to apply
+     */
+    has: z.array(RouteConditionSchema).optional(),
+
+    /**
+     * Conditions that must all not match for the rule to apply
+     */
+    missing: z.array(RouteConditionSchema).optional()
+});
+
+/**
+ * Rewrite rule, serves the destination without changing the URL
+ *
+ * @example
+ * { source: '/docs/[...path]', destination: '/content/docs/[...path]' }
+ */
+export const RewriteRuleSchema = z.object({
+    /**
+     * Path pattern to match
+     */
+    source: z.string().startsWith('/'),
+
+    /**
+     * Path or URL to serve instead
+     */
+    destination: z.string(),
+
+    /**
+     * Conditions that must all match for the rule to apply
+     */
+    has: z.array(RouteConditionSchema).optional(),
+
+    /**
+     * Conditions that must all not match for the rule to apply
+     */
+    missing: z.array(RouteConditionSchema).optional()
+});
+
+/**
+ * Custom response headers rule
+ *
+ * @example
+ * { source: '/assets/[...path]', headers: [{ key: 'Cache-Control', value: 'public, max-age=31536000' }] }
+ */
+export const HeaderRuleSchema = z.object({
+    /**
+     * Path pattern to match
+     */
+    source: z.string().startsWith('/'),
+
+    /**
+     * Headers to set on matching responses
+     */
+    headers: z.array(z.object({
+        key: z.string(),
+        value: z.string()
+    })),
+
+    /**
+     * Conditions that must all match for the rule to apply
+     */
+    has: z.array(RouteConditionSchema).optional(),
+
+    /**
+     * Conditions that must all not match for the rule to apply
+     */
+    missing: z.array(RouteConditionSchema).optional()
+});
+
+export type RouteCondition = z.infer<typeof RouteConditionSchema>;
+export type RedirectRule = z.infer<typeof RedirectRuleSchema>;
+export type RewriteRule = z.infer<typeof RewriteRuleSchema>;
+export type HeaderRule = z.infer<typeof HeaderRuleSchema>;
+
+/**
+ * Schema of the Rytestack configuration
+ */
 export const RytestackConfigSchema = z.object({
-    // ... existing config
+    /**
+     * Frontend framework
+     */
+    framework: z.enum(SupportedFrameworks).default('react'),
+
+    /**
+     * Mode the configuration was loaded for
+     */
+    mode: z.enum(['development', 'production']).default('development'),
+
+    /**
+     * Source directory
+     */
+    srcDir: z.string().default('./src'),
+
+    /**
+     * Build output directory
+     */
+    outDir: z.string().default('./dist'),
+
+    /**
+     * Directory of static files served as they are
+     */
+    publicDir: z.string().default('./public'),
+
+    /**
+     * Build output, `static` pre-renders every page and needs no server
+     */
+    output: z.enum(OutputModes).default('server'),
+
+    /**
+     * Deployment configuration
+     */
+    deployment: z.object({
+        /**
+         * Platform to build and deploy for
+         */
+        target: z.enum(DeploymentTargets).default('node')
+    }).default({}),
+
+    /**
+     * Server-side rendering configuration
+     */
+    ssr: z.object({
+        /**
+         * Whether pages are rendered on the server
+         */
+        enabled: z.boolean().default(true),
+
+        /**
+         * Whether server renders are streamed
+         */
+        streaming: z.boolean().default(true)
+    }).default({}),
+
+    /**
+     * Incremental static regeneration of pages with `revalidate` in their config
+     */
+    isr: z.object({
+        /**
+         * Store for rendered pages, an in-memory store by default
+         */
+        store: z.custom<RenderCacheStore>(
+            value => typeof (value as RenderCacheStore | undefined)?.get === 'function',
+            'Expected a render cache store'
+        ).optional()
+    }).default({}),
+
+    /**
+     * Progressive Web App configuration
+     */
+    pwa: z.object({
+        /**
+         * Whether to generate a web app manifest and service worker
+         */
+        enabled: z.boolean().default(false),
+
+        /**
+         * Web app manifest fields
+         */
+        manifest: z.record(z.any()).optional()
+    }).default({}),
+
+    /**
+     * Internationalization configuration
+     */
+    i18n: z.object({
+        /**
+         * Whether i18n is enabled
+         */
+        enabled: z.boolean().default(false),
+
+        /**
+         * Locale used when none is detected
+         */
+        defaultLocale: z.string().default('en'),
+
+        /**
+         * Supported locales
+         */
+        locales: z.array(z.string()).nonempty().default(['en']),
+
+        /**
+         * Whether to detect the locale from the request
+         */
+        autoDetect: z.boolean().default(true)
+    }).default({}),
+
+    /**
+     * Environment variable schemas, keyed by variable name
+     *
+     * Variables starting with `PUBLIC_` are inlined into client bundles,
+     * all others are only available on the server.
+     */
+    env: z.record(z.custom<ZodTypeAny>(
+        value => typeof (value as ZodTypeAny | undefined)?.safeParse === 'function',
+        'Expected a zod schema'
+    )).default({}),
+
+    /**
+     * Plugins, in the order their hooks run
+     */
+    plugins: z.array(z.custom<RytestackPlugin>(
+        value => typeof (value as RytestackPlugin | undefined)?.name === 'string',
+        'Expected a Rytestack plugin'
+    )).default([]),
 
     /**
      * Logging configuration
@@ -92,7 +398,17 @@ export const RytestackConfigSchema = z.object({
             enabled: true,
             contentSecurityPolicy: false,
             hsts: true
-        })
+        }),
+
+        /**
+         * CORS configuration
+         */
+        cors: z.object({
+            /**
+             * Allowed origins in production
+             */
+            origin: z.string().or(z.array(z.string())).default('*')
+        }).default({})
     }).default({
         csrf: {
             enabled: true,
@@ -106,5 +422,282 @@ export const RytestackConfigSchema = z.object({
             contentSecurityPolicy: false,
             hsts: true
         }
-    })
-});
\ No newline at end of file
+    }),
+
+    /**
+     * Redirects, applied before page and API routes
+     */
+    redirects: z.array(RedirectRuleSchema).default([]),
+
+    /**
+     * Rewrites, applied after redirects
+     */
+    rewrites: z.array(RewriteRuleSchema).default([]),
+
+    /**
+     * Custom response headers
+     */
+    headers: z.array(HeaderRuleSchema).default([])
+});
+
+/**
+ * Validated Rytestack configuration, with defaults applied
+ */
+export type RytestackConfig = z.infer<typeof RytestackConfigSchema>;
+
+/**
+ * Configuration as written in `rytestack.config.*`, where every field is optional
+ */
+export type UserConfig = z.input<typeof RytestackConfigSchema>;
+
+/**
+ * Configuration export of a config file, optionally computed per mode
+ */
+export type UserConfigExport = UserConfig | ((env: { mode: ConfigMode }) => UserConfig | Promise<UserConfig>);
+
+/**
+ * Default configuration, used when a project has no config file
+ */
+export const DEFAULT_CONFIG: RytestackConfig = RytestackConfigSchema.parse({});
+
+/**
+ * Typed helper for `rytestack.config.*` files
+ *
+ * @param config Configuration, or a function returning it for a mode
+ * @returns The configuration as passed
+ *
+ * @example
+ * ```typescript
+ * // rytestack.config.ts
+ * import { defineConfig } from '@rytestack/core';
+ *
+ * export default defineConfig({
+ *     framework: 'react',
+ *     deployment: { target: 'cloudflare' }
+ * });
+ * ```
+ */
+export function defineConfig<T extends UserConfigExport>(config: T): T {
+    return config;
+}
+
+/**
+ * Invalid configuration value
+ */
+export interface ConfigIssue {
+    /**
+     * Path of the invalid key (e.g., 'deployment.target', 'redirects[0].source')
+     */
+    path: string;
+
+    /**
+     * What's wrong with the value
+     */
+    message: string;
+}
+
+/**
+ * Error thrown when a configuration fails validation
+ */
+export class ConfigValidationError extends Error {
+    constructor(readonly issues: ConfigIssue[], readonly filePath?: string) {
+        super([
+            `Invalid Rytestack configuration${filePath ? ` in ${path.basename(filePath)}` : ''}:`,
+            ...issues.map(issue => `  - ${issue.path || '(root)'}: ${issue.message}`)
+        ].join('\n'));
+        this.name = 'ConfigValidationError';
+    }
+}
+
+/**
+ * Formats a zod issue path as a key path
+ */
+function formatIssuePath(issuePath: (string | number)[]): string {
+    return issuePath.reduce<string>((result, key) => (
+        typeof key === 'number' ? `${result}[${key}]` : result ? `${result}.${key}` : key
+    ), '');
+}
+
+/**
+ * Validates a configuration and applies its defaults
+ *
+ * @param config Configuration to validate
+ * @param filePath Config file the configuration came from, used in errors
+ * @returns Validated configuration
+ * @throws ConfigValidationError if the configuration is invalid
+ */
+export function validateConfig(config: unknown, filePath?: string): RytestackConfig {
+    const result = RytestackConfigSchema.safeParse(config);
+
+    if (!result.success) {
+        throw new ConfigValidationError(
+            result.error.issues.map(issue => ({ path: formatIssuePath(issue.path), message: issue.message })),
+            filePath
+        );
+    }
+
+    return result.data;
+}
+
+/**
+ * Extensions config files can be written with
+ */
+const CONFIG_EXTENSIONS = ['.ts', '.mts', '.cts', '.js', '.mjs', '.cjs'];
+
+/**
+ * Checks whether a value is a plain object, so class instances such as
+ * zod schemas are replaced rather than merged
+ */
+function isPlainObject(value: unknown): value is Record<string, any> {
+    if (typeof value !== 'object' || value === null) {
+        return false;
+    }
+
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Deeply merges an overlay into a configuration, arrays are replaced
+ *
+ * @param base Base configuration
+ * @param overlay Overlay configuration
+ * @returns Merged configuration
+ */
+export function mergeConfig<T extends Record<string, any> = UserConfig>(base: T, overlay: T): T {
+    const merged: Record<string, any> = { ...base };
+
+    for (const [key, value] of Object.entries(overlay)) {
+        merged[key] = isPlainObject(value) && isPlainObject(merged[key])
+            ? mergeConfig(merged[key], value)
+            : value;
+    }
+
+    return merged as T;
+}
+
+/**
+ * Gets the configuration of a config file export, calling it for the mode if it's a function
+ *
+ * @param exported Default export of a config file
+ * @param mode Mode passed to config functions
+ * @returns User configuration
+ */
+export async function resolveUserConfig(exported: UserConfigExport, mode: ConfigMode): Promise<UserConfig> {
+    return typeof exported === 'function' ? exported({ mode }) : exported;
+}
+
+/**
+ * Imports a config file of any supported extension
+ *
+ * The file is bundled by esbuild (keeping packages external), so TypeScript
+ * and CommonJS configs load the same way as ES modules.
+ *
+ * @param filePath Absolute path to the config file
+ * @param mode Mode passed to config functions
+ * @returns User configuration
+ */
+async function importConfigFile(filePath: string, mode: ConfigMode): Promise<UserConfig> {
+    const result = await build({
+        entryPoints: [filePath],
+        bundle: true,
+        write: false,
+        platform: 'node',
+        format: 'esm',
+        packages: 'external',
+        logLevel: 'silent'
+    });
+
+    // Written next to the config, so its imports resolve from the project
+    const tempFile = path.join(path.dirname(filePath), `.${path.basename(filePath)}.${Date.now()}.mjs`);
+    await fs.writeFile(tempFile, result.outputFiles[0].text, 'utf-8');
+
+    try {
+        const module = await import(pathToFileURL(tempFile).href);
+
+        return resolveUserConfig(module.default ?? module, mode);
+    } finally {
+        await fs.unlink(tempFile).catch(() => undefined);
+    }
+}
+
+/**
+ * Finds the overlay of a config file for a mode (e.g., `rytestack.config.production.ts`)
+ *
+ * @param configPath Path to the base config file
+ * @param mode Mode to find the overlay for
+ * @returns Path to the overlay, or undefined
+ */
+export async function findConfigOverlay(configPath: string, mode: ConfigMode): Promise<string | undefined> {
+    const baseName = path.basename(configPath).replace(/\.[^.]+$/, '');
+
+    for (const extension of CONFIG_EXTENSIONS) {
+        const overlayPath = path.join(path.dirname(configPath), `${baseName}.${mode}${extension}`);
+
+        if (await fileExists(overlayPath)) {
+            return overlayPath;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Resolves a user configuration
+ *
+ * Runs the `config` hooks of its plugins, validates the result and then
+ * runs their `configResolved` hooks.
+ *
+ * @param userConfig User configuration
+ * @param mode Mode the configuration is resolved for
+ * @param filePath Config file the configuration came from, used in errors
+ * @returns Validated configuration
+ * @throws ConfigValidationError if the configuration is invalid
+ */
+export async function resolveConfig(userConfig: UserConfig, mode: ConfigMode, filePath?: string): Promise<RytestackConfig> {
+    let merged: UserConfig = { mode, ...userConfig };
+
+    for (const plugin of sortPlugins(userConfig.plugins)) {
+        const partial = await plugin.config?.(merged, { mode });
+
+        if (partial) {
+            merged = mergeConfig(merged, partial);
+        }
+    }
+
+    const config = validateConfig(merged, filePath);
+
+    for (const plugin of sortPlugins(config.plugins)) {
+        await plugin.configResolved?.(config);
+    }
+
+    return config;
+}
+
+/**
+ * Loads and resolves a config file
+ *
+ * The overlay for the mode, if present, is deeply merged over the base
+ * config. Both files may export an object or a function of `{ mode }`.
+ *
+ * @param configPath Path to `rytestack.config.*`
+ * @param options Set `mode` to choose the overlay, defaults from NODE_ENV
+ * @returns Validated configuration
+ * @throws ConfigValidationError if the merged configuration is invalid
+ */
+export async function loadConfig(configPath: string, options: { mode?: ConfigMode } = {}): Promise<RytestackConfig> {
+    const mode = options.mode || (process.env.NODE_ENV === 'production' ? 'production' : 'development');
+    const absolutePath = path.resolve(configPath);
+
+    let config = await importConfigFile(absolutePath, mode);
+    let source = absolutePath;
+
+    const overlayPath = await findConfigOverlay(absolutePath, mode);
+
+    if (overlayPath) {
+        config = mergeConfig(config, await importConfigFile(overlayPath, mode));
+        source = `${absolutePath} + ${path.basename(overlayPath)}`;
+    }
+
+    return resolveConfig(config, mode, source);
+}
@@ -0,0 +1,407 @@
+/**
+ * @fileoverview Environment variables for Rytestack
+ *
+ * Loads `.env` files, validates the variables declared in the config and
+ * keeps server-only values out of client bundles. Only variables starting
+ * with `PUBLIC_` are ever inlined into client code.
+ */
+import path from 'path';
+import fs from 'fs/promises';
+import type { PartialMessage, Plugin } from 'esbuild';
+import type { ZodTypeAny } from 'zod';
+import { ConfigIssue, ConfigMode } from './config';
+import { fileExists } from './utils';
+
+/**
+ * Prefix of variables that may be exposed to client code
+ */
+export const PUBLIC_ENV_PREFIX = 'PUBLIC_';
+
+/**
+ * Name of the virtual module giving typed access to environment variables
+ */
+export const ENV_MODULE = 'virtual:rytestack/env';
+
+/**
+ * Environment variable schemas, keyed by variable name
+ */
+export type EnvSchema = Record<string, ZodTypeAny>;
+
+/**
+ * Error thrown when environment variables fail validation
+ */
+export class EnvValidationError extends Error {
+    constructor(readonly issues: ConfigIssue[]) {
+        super([
+            'Invalid environment variables:',
+            ...issues.map(issue => `  - ${issue.path}: ${issue.message}`)
+        ].join('\n'));
+        this.name = 'EnvValidationError';
+    }
+}
+
+/**
+ * Checks whether a variable may be exposed to client code
+ *
+ * @param name Variable name
+ * @returns Whether the variable is public
+ */
+export function isPublicEnv(name: string): boolean {
+    return name.startsWith(PUBLIC_ENV_PREFIX);
+}
+
+/**
+ * Parses the contents of a `.env` file
+ *
+ * Supports comments, `export` prefixes, and single, double or backtick
+ * quoted values. Escapes like `\n` are only expanded in double quotes.
+ *
+ * @param contents File contents
+ * @returns Variables in the file
+ */
+export function parseEnvFile(contents: string): Record<string, string> {
+    const variables: Record<string, string> = {};
+    const pattern = /^\s*(?:export\s+)?([\w.-]+)\s*=\s*("(?:\\.|[^"\\])*"|'[^']*'|`[^`]*`|[^\n#]*)\s*(?:#.*)?$/gm;
+
+    for (const [, name, rawValue] of contents.replace(/\r\n?/g, '\n').matchAll(pattern)) {
+        let value = rawValue.trim();
+        const quote = value[0];
+
+        if ((quote === '"' || quote === "'" || quote === '`') && value.endsWith(quote)) {
+            value = value.slice(1, -1);
+
+            if (quote === '"') {
+                value = value.replace(/\\([nrt"\\])/g, (_, char: string) => ({ n: '\n', r: '\r', t: '\t' } as Record<string, string>)[char] ?? char);
+            }
+        }
+
+        variables[name] = value;
+    }
+
+    return variables;
+}
+
+/**
+ * Gets the `.env` files for a mode, in increasing order of precedence
+ *
+ * @param mode Mode to load
+ * @returns File names
+ */
+export function getEnvFiles(mode: ConfigMode): string[] {
+    return ['.env', '.env.local', `.env.${mode}`, `.env.${mode}.local`];
+}
+
+/**
+ * Reads the `.env` files of a project
+ *
+ * Later files override earlier ones (see getEnvFiles). Variables already
+ * set in the process environment are not part of the result.
+ *
+ * @param rootDir Project root directory
+ * @param mode Mode to load
+ * @returns Variables from the files
+ */
+export async function loadEnvFiles(rootDir: string, mode: ConfigMode): Promise<Record<string, string>> {
+    const variables: Record<string, string> = {};
+
+    for (const file of getEnvFiles(mode)) {
+        const filePath = path.join(rootDir, file);
+
+        if (await fileExists(filePath)) {
+            Object.assign(variables, parseEnvFile(await fs.readFile(filePath, 'utf-8')));
+        }
+    }
+
+    return variables;
+}
+
+/**
+ * Validates environment variables against their schemas
+ *
+ * @param schema Variable schemas, keyed by name
+ * @param source Raw variables
+ * @returns Parsed values of the declared variables
+ * @throws EnvValidationError if a variable is missing or invalid
+ */
+export function validateEnv(schema: EnvSchema, source: Record<string, string | undefined>): Record<string, any> {
+    const values: Record<string, any> = {};
+    const issues: ConfigIssue[] = [];
+
+    for (const [name, variableSchema] of Object.entries(schema)) {
+        const result = variableSchema.safeParse(source[name]);
+
+        if (result.success) {
+            values[name] = result.data;
+        } else {
+            issues.push(...result.error.issues.map(issue => ({ path: name, message: issue.message })));
+        }
+    }
+
+    if (issues.length > 0) {
+        throw new EnvValidationError(issues);
+    }
+
+    return values;
+}
+
+/**
+ * Options for loading environment variables
+ */
+export interface LoadEnvOptions {
+    /**
+     * Project root directory
+     */
+    rootDir?: string;
+
+    /**
+     * Mode, selects the `.env.[mode]` files
+     */
+    mode: ConfigMode;
+
+    /**
+     * Variable schemas from the `env` config
+     */
+    schema?: EnvSchema;
+}
+
+/**
+ * Loaded environment variables
+ */
+export interface LoadedEnv {
+    /**
+     * Raw values of all variables from `.env` files and declared in the schema
+     */
+    variables: Record<string, string>;
+
+    /**
+     * Parsed values of the variables declared in the schema
+     */
+    values: Record<string, any>;
+}
+
+/**
+ * Loads `.env` files into `process.env` and validates the declared variables
+ *
+ * The process environment takes precedence over `.env` files, so values
+ * set by the shell or the hosting platform are never overridden.
+ *
+ * @param options Load options
+ * @returns Loaded variables
+ * @throws EnvValidationError if a declared variable is missing or invalid
+ */
+export async function loadEnv({ rootDir = process.cwd(), mode, schema = {} }: LoadEnvOptions): Promise<LoadedEnv> {
+    const fileVariables = await loadEnvFiles(rootDir, mode);
+    const variables: Record<string, string> = {};
+
+    for (const [name, value] of Object.entries(fileVariables)) {
+        process.env[name] ??= value;
+        variables[name] = process.env[name]!;
+    }
+
+    for (const name of Object.keys(schema)) {
+        if (process.env[name] !== undefined) {
+            variables[name] = process.env[name]!;
+        }
+    }
+
+    return { variables, values: validateEnv(schema, process.env) };
+}
+
+/**
+ * Gets the variables that may be inlined into client bundles
+ *
+ * @param variables Loaded variables
+ * @returns Variables with the public prefix
+ */
+export function getPublicEnv(variables: Record<string, any>): Record<string, any> {
+    return Object.fromEntries(Object.entries(variables).filter(([name]) => isPublicEnv(name)));
+}
+
+/**
+ * Creates esbuild `define` entries inlining public variables
+ *
+ * @param variables Loaded variables, private ones are ignored
+ * @returns Define entries for `process.env.*` and `import.meta.env.*`
+ */
+export function createEnvDefines(variables: Record<string, any>): Record<string, string> {
+    const defines: Record<string, string> = {};
+
+    for (const [name, value] of Object.entries(getPublicEnv(variables))) {
+        defines[`process.env.${name}`] = JSON.stringify(value);
+        defines[`import.meta.env.${name}`] = JSON.stringify(value);
+    }
+
+    return defines;
+}
+
+/**
+ * Checks whether a variable is defined by the build in every bundle
+ * (`process.env.NODE_ENV`, `process.env.RYTESTACK_CLIENT`), client code
+ * reading it never sees the value of the environment
+ */
+function isBuildDefinedEnv(name: string): boolean {
+    return name === 'NODE_ENV' || name.startsWith('RYTESTACK_');
+}
+
+/**
+ * Gets the local names the `env` object of the env module is imported under
+ *
+ * @param source Module source
+ * @returns Local names, `ns.env` for namespace imports
+ */
+function getEnvModuleBindings(source: string): string[] {
+    const bindings: string[] = [];
+    const pattern = /\bimport\s+([\w$*\s{},]+?)\s+from\s*['"]virtual:rytestack\/env['"]/g;
+
+    for (const [, clause] of source.matchAll(pattern)) {
+        const named = clause.match(/\{([^}]*)\}/)?.[1] || '';
+        const [defaultName] = clause.replace(/\{[^}]*\}/, '').split(',').map(part => part.trim());
+        const namespace = defaultName?.match(/^\*\s*as\s+([\w$]+)$/)?.[1];
+
+        if (namespace) {
+            bindings.push(`${namespace}.env`, `${namespace}.default`);
+        } else if (defaultName) {
+            bindings.push(defaultName);
+        }
+
+        for (const specifier of named.split(',')) {
+            const [imported, local = imported] = specifier.split(/\s+as\s+/).map(part => part.trim());
+
+            if (imported === 'env' || imported === 'default') {
+                bindings.push(local);
+            }
+        }
+    }
+
+    return bindings;
+}
+
+/**
+ * Finds references to server-only variables in client source code
+ *
+ * Looks for reads of `process.env`, `import.meta.env` and the `env` object
+ * imported from the env module, so unrelated objects named `env` (e.g.
+ * `config.env` or a local variable) aren't mistaken for it.
+ *
+ * @param source Module source
+ * @param privateNames Names of server-only variables
+ * @returns Referenced names with their line and column
+ */
+function findPrivateEnvReferences(source: string, privateNames: Set<string>): Array<{ name: string; line: number; column: number; lineText: string }> {
+    const references = [];
+    const objects = ['process.env', 'import.meta.env', ...getEnvModuleBindings(source)]
+        .map(object => object.replace(/[.$]/g, '\\$&'));
+    const pattern = new RegExp(`(?<![\\w$.])(?:${objects.join('|')})\\s*(?:\\.\\s*([A-Za-z_$][\\w$]*)|\\[\\s*['"\`]([^'"\`]+)['"\`]\\s*\\])`, 'g');
+
+    for (const match of source.matchAll(pattern)) {
+        const name = match[1] || match[2];
+
+        if (privateNames.has(name)) {
+            const before = source.slice(0, match.index);
+            const line = before.split('\n').length;
+            const column = match.index! - before.lastIndexOf('\n') - 1;
+
+            references.push({ name, line, column, lineText: source.split('\n')[line - 1] });
+        }
+    }
+
+    return references;
+}
+
+/**
+ * Gets the names of the server-only variables of a loaded environment
+ */
+function getPrivateEnvNames(env: LoadedEnv): Set<string> {
+    return new Set([...Object.keys(env.variables), ...Object.keys(env.values)].filter(name => !isPublicEnv(name) && !isBuildDefinedEnv(name)));
+}
+
+/**
+ * Creates build errors for the server-only variables client code references
+ *
+ * @param source Source of a client module
+ * @param filePath Path of the module, used in the errors
+ * @param env Loaded variables
+ * @returns Errors, empty if the module only uses public variables
+ */
+export function getPrivateEnvErrors(source: string, filePath: string, env: LoadedEnv): PartialMessage[] {
+    return findPrivateEnvReferences(source, getPrivateEnvNames(env)).map(reference => ({
+        text: `Server-only environment variable "${reference.name}" can't be used in client code, prefix it with ${PUBLIC_ENV_PREFIX} to expose it`,
+        location: {
+            file: filePath,
+            line: reference.line,
+            column: reference.column,
+            lineText: reference.lineText
+        }
+    }));
+}
+
+/**
+ * Options for the env plugin
+ */
+export interface EnvPluginOptions {
+    /**
+     * Bundle the plugin is used for, client bundles only get public variables
+     */
+    target: 'client' | 'server';
+
+    /**
+     * Loaded variables
+     */
+    env: LoadedEnv;
+}
+
+/**
+ * Creates an esbuild plugin providing the env module and guarding client bundles
+ *
+ * On the client, `virtual:rytestack/env` only contains public variables,
+ * inlined at build time, and the build fails if a source file references
+ * a server-only variable. On the server, the module reads `process.env`
+ * at runtime, so secrets are never written into server bundles either.
+ * Both sides see the raw, validated string values.
+ *
+ * @param options Plugin options
+ * @returns esbuild plugin
+ *
+ * @example
+ * ```typescript
+ * import { env } from 'virtual:rytestack/env';
+ *
+ * fetch(`${env.PUBLIC_API_URL}/posts`);
+ * ```
+ */
+export function envPlugin({ target, env }: EnvPluginOptions): Plugin {
+    const namespace = 'rytestack-env';
+    const privateNames = getPrivateEnvNames(env);
+
+    return {
+        name: 'rytestack-env',
+        setup(build) {
+            build.onResolve({ filter: /^virtual:rytestack\/env$/ }, args => ({
+                path: args.path,
+                namespace
+            }));
+
+            build.onLoad({ filter: /.*/, namespace }, () => ({
+                contents: target === 'client'
+                    ? `export const env = Object.freeze(${JSON.stringify(getPublicEnv(env.variables))});\nexport default env;`
+                    : 'export const env = globalThis.process?.env ?? {};\nexport default env;',
+                loader: 'js'
+            }));
+
+            if (target !== 'client' || privateNames.size === 0) {
+                return;
+            }
+
+            build.onLoad({ filter: /\.[cm]?[jt]sx?$/ }, async args => {
+                if (args.path.includes('node_modules')) {
+                    return undefined;
+                }
+
+                const errors = getPrivateEnvErrors(await fs.readFile(args.path, 'utf-8'), args.path, env);
+
+                // Without errors, esbuild loads the file as usual
+                return errors.length > 0 ? { errors } : undefined;
+            });
+        }
+    };
+}
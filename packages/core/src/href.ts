@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Type-safe route links for Rytestack
+ *
+ * Builds URLs from route path patterns. The set of known routes is
+ * filled in by the generated route types (see typegen.ts).
+ */
+
+/**
+ * Known page routes and their parameters
+ *
+ * Empty by default, the generated `routes.d.ts` augments it with one
+ * entry per discovered page route.
+ *
+ * @example
+ * ```typescript
+ * declare module '@rytestack/core' {
+ *     interface RegisteredRoutes {
+ *         '/blog/:slug': { slug: string };
+ *     }
+ * }
+ * ```
+ */
+export interface RegisteredRoutes {}
+
+/**
+ * Path pattern of a known route, or any string if no routes are registered
+ */
+export type RoutePath = keyof RegisteredRoutes extends never ? string : keyof RegisteredRoutes & string;
+
+/**
+ * Parameters of a route path pattern
+ */
+export type RouteParamsOf<P extends string> = P extends keyof RegisteredRoutes
+    ? RegisteredRoutes[P]
+    : Record<string, string | string[] | undefined>;
+
+/**
+ * Parameter arguments of href, optional when the route has no required params
+ */
+export type HrefParamsArgs<P extends string> = {} extends RouteParamsOf<P>
+    ? [params?: RouteParamsOf<P>]
+    : [params: RouteParamsOf<P>];
+
+/**
+ * Builds a URL from a route path pattern and its parameters
+ *
+ * @param routePath Route path pattern (e.g., '/blog/:slug')
+ * @param args Route parameters
+ * @returns URL path
+ * @throws Error if a required parameter is missing
+ *
+ * @example
+ * ```typescript
+ * href('/blog/:slug', { slug: 'hello-world' }); // '/blog/hello-world'
+ * href('/docs/:slug+', { slug: ['guide', 'intro'] }); // '/docs/guide/intro'
+ * ```
+ */
+export function href<P extends RoutePath>(routePath: P, ...args: HrefParamsArgs<P>): string {
+    const params = (args[0] || {}) as Record<string, string | string[] | undefined>;
+
+    const url = routePath.replace(/(\/?):([A-Za-z0-9_$]+)([+*]?)/g, (_, slash: string, name: string, modifier: string) => {
+        const value = params[name];
+        const segments = value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+        if (segments.length === 0) {
+            if (modifier === '*') {
+                return '';
+            }
+
+            throw new Error(`Missing parameter "${name}" for route ${routePath}`);
+        }
+
+        if (!modifier && segments.length > 1) {
+            throw new Error(`Parameter "${name}" of route ${routePath} must be a single value`);
+        }
+
+        return `${slash}${segments.map(segment => encodeURIComponent(segment)).join('/')}`;
+    });
+
+    return url || '/';
+}
@@ -6,6 +6,16 @@
  */
 
 export * from './config';
+export * from './env';
+export * from './plugins';
 export * from './routing';
+export * from './analysis';
+export * from './manifest';
+export * from './assets';
+export * from './prerender';
+export * from './cache';
+export * from './href';
+export * from './redirects';
+export * from './typegen';
 export * from './build';
 export * from './utils';
\ No newline at end of file
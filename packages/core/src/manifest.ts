@@ -0,0 +1,587 @@
+/**
+ * @fileoverview Route manifest for Rytestack
+ *
+ * Serializes discovered routes at build time, so runtimes that can't
+ * access the filesystem (e.g. Cloudflare Workers) never need to run
+ * route discovery.
+ */
+import path from 'path';
+import type { Metafile, Plugin } from 'esbuild';
+import {
+    ApiRoute,
+    ErrorPageRoute,
+    MiddlewareRoute,
+    PageConfig,
+    Route,
+    RouteDiscoveryOptions,
+    RouteParams,
+    discoverApiRoutes,
+    discoverDocument,
+    discoverErrorPages,
+    discoverMiddleware,
+    discoverRoutes,
+    rankRoutes
+} from './routing';
+import { HttpMethod } from './analysis';
+import { extractRouteMetadata } from './build';
+import { RytestackConfig } from './config';
+import { BuildTarget, applyRouteHooks } from './plugins';
+import { readJson, writeJson } from './utils';
+
+/**
+ * File name of the route manifest in the output directory
+ */
+export const ROUTE_MANIFEST_FILE = 'route-manifest.json';
+
+/**
+ * Name of the virtual module exposing the route manifest to bundles
+ */
+export const ROUTE_MANIFEST_MODULE = 'virtual:rytestack/manifest';
+
+/**
+ * Current version of the manifest format
+ */
+const ROUTE_MANIFEST_VERSION = 2;
+
+/**
+ * Page route entry in the manifest
+ */
+export interface ManifestRoute {
+    /**
+     * Path pattern for the route
+     */
+    path: string;
+
+    /**
+     * Route parameters
+     */
+    params: RouteParams;
+
+    /**
+     * Component file, relative to srcDir
+     */
+    component: string;
+
+    /**
+     * Layout files wrapping the route, relative to srcDir, ordered parent to child
+     */
+    layouts: string[];
+
+    /**
+     * Whether this is an index route
+     */
+    index: boolean;
+
+    /**
+     * Additional metadata for the route
+     */
+    meta: Record<string, any>;
+
+    /**
+     * Page configuration
+     */
+    config: PageConfig;
+
+    /**
+     * Client chunk containing the component, relative to the client output directory
+     */
+    chunk?: string;
+}
+
+/**
+ * API route entry in the manifest
+ */
+export interface ManifestApiRoute {
+    /**
+     * Path pattern for the API route
+     */
+    path: string;
+
+    /**
+     * Route parameters
+     */
+    params: RouteParams;
+
+    /**
+     * HTTP methods handled by the route
+     */
+    methods: HttpMethod[];
+
+    /**
+     * Handler file, relative to srcDir
+     */
+    handler: string;
+
+    /**
+     * Server chunk containing the handler, relative to the server output directory
+     */
+    chunk?: string;
+}
+
+/**
+ * Middleware file entry in the manifest
+ */
+export interface ManifestMiddleware {
+    /**
+     * Path pattern of the folder the middleware applies to
+     */
+    path: string;
+
+    /**
+     * Whether the middleware lives in the pages or the API directory
+     */
+    type: 'page' | 'api';
+
+    /**
+     * Route parameters of the folder path
+     */
+    params: RouteParams;
+
+    /**
+     * Paths of the routes the middleware applies to when its folder is in a route group
+     */
+    routes?: string[];
+
+    /**
+     * Paths of the routes matched before `routes` that the middleware doesn't apply to
+     */
+    precedingRoutes?: string[];
+
+    /**
+     * Middleware file, relative to srcDir
+     */
+    file: string;
+
+    /**
+     * Server chunk containing the middleware, relative to the server output directory
+     */
+    chunk?: string;
+}
+
+/**
+ * Error page entry in the manifest (`_error` and `_404` files)
+ */
+export interface ManifestErrorPage {
+    /**
+     * Path pattern of the folder the page applies to
+     */
+    path: string;
+
+    /**
+     * Whether the page renders errors or unknown URLs
+     */
+    type: 'error' | 'notFound';
+
+    /**
+     * Route parameters of the folder path
+     */
+    params: RouteParams;
+
+    /**
+     * Paths of the routes the page applies to when its folder is in a route group
+     */
+    routes?: string[];
+
+    /**
+     * Page file, relative to srcDir
+     */
+    file: string;
+}
+
+/**
+ * Serialized routes of an application
+ */
+export interface RouteManifest {
+    /**
+     * Manifest format version
+     */
+    version: number;
+
+    /**
+     * Page routes in matching order
+     */
+    routes: ManifestRoute[];
+
+    /**
+     * API routes in matching order
+     */
+    apiRoutes: ManifestApiRoute[];
+
+    /**
+     * Middleware files, ordered parent to child
+     */
+    middleware: ManifestMiddleware[];
+
+    /**
+     * Error and not found pages, ordered parent to child
+     */
+    errorPages: ManifestErrorPage[];
+
+    /**
+     * Custom document file (`_document`), relative to srcDir
+     */
+    document?: string;
+}
+
+/**
+ * Options for creating a route manifest
+ */
+export interface CreateRouteManifestOptions {
+    /**
+     * Discovered page routes
+     */
+    routes: Route[];
+
+    /**
+     * Discovered API routes
+     */
+    apiRoutes: ApiRoute[];
+
+    /**
+     * Discovered middleware files
+     */
+    middleware?: MiddlewareRoute[];
+
+    /**
+     * Discovered error and not found pages
+     */
+    errorPages?: ErrorPageRoute[];
+
+    /**
+     * Custom document file
+     */
+    document?: string;
+
+    /**
+     * Root directory of the source code
+     */
+    srcDir: string;
+
+    /**
+     * Metafile of the client build, used to resolve page chunks
+     */
+    clientMetafile?: Metafile;
+
+    /**
+     * Output directory of the client build
+     */
+    clientOutDir?: string;
+
+    /**
+     * Metafile of the server build, used to resolve API handler chunks
+     */
+    serverMetafile?: Metafile;
+
+    /**
+     * Output directory of the server build
+     */
+    serverOutDir?: string;
+}
+
+/**
+ * Converts a path to a portable path relative to a directory
+ */
+function toRelative(from: string, filePath: string): string {
+    return path.relative(from, filePath).replace(/\\/g, '/');
+}
+
+/**
+ * Finds the output chunk of an esbuild build that contains a source file
+ *
+ * Entry chunks are preferred over shared chunks that happen to include the file.
+ *
+ * @param metafile esbuild metafile
+ * @param filePath Absolute path to the source file
+ * @param outDir Output directory of the build
+ * @returns Output path relative to the output directory, or undefined
+ */
+export function getChunkForFile(metafile: Metafile | undefined, filePath: string, outDir: string): string | undefined {
+    if (!metafile) {
+        return undefined;
+    }
+
+    const input = toRelative(process.cwd(), filePath);
+    const outputs = Object.entries(metafile.outputs).filter(([outputPath]) => outputPath.endsWith('.js'));
+    const entry = outputs.find(([, output]) => output.entryPoint === input);
+    const chunk = entry || outputs.find(([, output]) => input in output.inputs);
+
+    return chunk ? toRelative(path.resolve(outDir), path.resolve(chunk[0])) : undefined;
+}
+
+/**
+ * Creates a serializable route manifest from discovered routes
+ *
+ * @param options Manifest options
+ * @returns Route manifest
+ */
+export function createRouteManifest({
+                                        routes,
+                                        apiRoutes,
+                                        middleware = [],
+                                        errorPages = [],
+                                        document,
+                                        srcDir,
+                                        clientMetafile,
+                                        clientOutDir = '.',
+                                        serverMetafile,
+                                        serverOutDir = '.'
+                                    }: CreateRouteManifestOptions): RouteManifest {
+    const root = path.resolve(srcDir);
+
+    return {
+        version: ROUTE_MANIFEST_VERSION,
+        routes: routes.map(route => ({
+            path: route.path,
+            params: route.params,
+            component: toRelative(root, path.resolve(route.component)),
+            layouts: route.layouts.map(layout => toRelative(root, path.resolve(layout))),
+            index: route.index,
+            meta: route.meta,
+            config: route.config,
+            chunk: getChunkForFile(clientMetafile, path.resolve(route.component), clientOutDir)
+        })),
+        apiRoutes: apiRoutes.map(route => ({
+            path: route.path,
+            params: route.params,
+            methods: route.methods,
+            handler: toRelative(root, path.resolve(route.handler)),
+            chunk: getChunkForFile(serverMetafile, path.resolve(route.handler), serverOutDir)
+        })),
+        middleware: middleware.map(entry => ({
+            path: entry.path,
+            type: entry.type,
+            params: entry.params,
+            routes: entry.routes,
+            precedingRoutes: entry.precedingRoutes,
+            file: toRelative(root, path.resolve(entry.file)),
+            chunk: getChunkForFile(serverMetafile, path.resolve(entry.file), serverOutDir)
+        })),
+        errorPages: errorPages.map(entry => ({
+            path: entry.path,
+            type: entry.type,
+            params: entry.params,
+            routes: entry.routes,
+            file: toRelative(root, path.resolve(entry.file))
+        })),
+        document: document && toRelative(root, path.resolve(document))
+    };
+}
+
+/**
+ * Converts a route manifest back to routes
+ *
+ * Component, layout, handler and middleware paths stay relative to srcDir,
+ * so they match the keys of the `modules` export of the virtual manifest module.
+ *
+ * @param manifest Route manifest
+ * @returns Page routes, API routes and middleware files
+ */
+export function manifestToRoutes(manifest: RouteManifest): { routes: Route[]; apiRoutes: ApiRoute[]; middleware: MiddlewareRoute[] } {
+    return {
+        routes: manifest.routes.map(route => ({
+            path: route.path,
+            params: route.params,
+            component: route.component,
+            layout: route.layouts[route.layouts.length - 1],
+            layouts: route.layouts,
+            index: route.index,
+            meta: route.meta,
+            config: route.config
+        })),
+        apiRoutes: manifest.apiRoutes.map(route => ({
+            path: route.path,
+            params: route.params,
+            methods: route.methods,
+            handler: route.handler
+        })),
+        middleware: manifest.middleware.map(entry => ({
+            path: entry.path,
+            type: entry.type,
+            params: entry.params,
+            routes: entry.routes,
+            precedingRoutes: entry.precedingRoutes,
+            file: entry.file
+        }))
+    };
+}
+
+/**
+ * Discovers routes, extracts their metadata and writes the route manifest to the output directory
+ *
+ * When `config` is given, its plugins' route hooks run on the discovered
+ * routes. The routes they return are ranked and checked for conflicts again,
+ * so the routes plugins add are matched by specificity like the others.
+ *
+ * @param outDir Output directory
+ * @param options Route discovery options
+ * @returns Route manifest
+ * @throws RouteConflictError if the routes returned by plugins are duplicate or ambiguous
+ */
+export async function buildRouteManifest(
+    outDir: string,
+    options: Partial<RouteDiscoveryOptions> & Omit<CreateRouteManifestOptions, 'routes' | 'apiRoutes' | 'srcDir'> & { config?: RytestackConfig } = {}
+): Promise<RouteManifest> {
+    const { clientMetafile, clientOutDir, serverMetafile, serverOutDir, config, ...discoveryOptions } = options;
+    let routes = await extractRouteMetadata(await discoverRoutes(discoveryOptions));
+    let apiRoutes = await discoverApiRoutes(discoveryOptions);
+
+    if (config) {
+        ({ routes, apiRoutes } = await applyRouteHooks({ routes, apiRoutes }, config));
+        routes = rankRoutes(routes, route => route.component);
+        apiRoutes = rankRoutes(apiRoutes, route => route.handler);
+    }
+
+    const middleware = await discoverMiddleware(discoveryOptions);
+    const errorPages = await discoverErrorPages(discoveryOptions);
+    const document = await discoverDocument(discoveryOptions);
+
+    const manifest = createRouteManifest({
+        routes,
+        apiRoutes,
+        middleware,
+        errorPages,
+        document,
+        srcDir: discoveryOptions.srcDir || './src',
+        clientMetafile,
+        clientOutDir,
+        serverMetafile,
+        serverOutDir
+    });
+
+    await writeRouteManifest(outDir, manifest);
+
+    return manifest;
+}
+
+/**
+ * Writes a route manifest to the output directory
+ *
+ * @param outDir Output directory
+ * @param manifest Route manifest
+ */
+export async function writeRouteManifest(outDir: string, manifest: RouteManifest): Promise<void> {
+    await writeJson(path.join(outDir, ROUTE_MANIFEST_FILE), manifest);
+}
+
+/**
+ * Reads a route manifest from the output directory
+ *
+ * @param outDir Output directory
+ * @returns Route manifest
+ */
+export async function readRouteManifest(outDir: string): Promise<RouteManifest> {
+    const manifest = await readJson<RouteManifest>(path.join(outDir, ROUTE_MANIFEST_FILE));
+
+    if (manifest.version !== ROUTE_MANIFEST_VERSION) {
+        throw new Error(`Unsupported route manifest version ${manifest.version}, rebuild the project`);
+    }
+
+    return manifest;
+}
+
+/**
+ * Gets the part of a route manifest client bundles may see
+ *
+ * API routes, middleware and the document only run on the server, their
+ * sources must not end up in client chunks.
+ *
+ * @param manifest Route manifest
+ * @returns Manifest with pages, layouts and error pages only
+ */
+export function getClientManifest(manifest: RouteManifest): RouteManifest {
+    return {
+        version: manifest.version,
+        routes: manifest.routes,
+        apiRoutes: [],
+        middleware: [],
+        errorPages: manifest.errorPages
+    };
+}
+
+/**
+ * Generates the source of the virtual manifest module
+ *
+ * The module exports the manifest and a `modules` map of lazy imports for
+ * every component, layout, handler, middleware, error page and document
+ * file, keyed by their manifest path. Client bundles get the module of
+ * `getClientManifest`.
+ *
+ * @param manifest Route manifest
+ * @param srcDir Root directory of the source code
+ * @returns Module source
+ */
+export function generateManifestModule(manifest: RouteManifest, srcDir: string): string {
+    const files = new Set<string>();
+
+    for (const route of manifest.routes) {
+        files.add(route.component);
+        route.layouts.forEach(layout => files.add(layout));
+    }
+
+    for (const route of manifest.apiRoutes) {
+        files.add(route.handler);
+    }
+
+    for (const entry of manifest.middleware) {
+        files.add(entry.file);
+    }
+
+    for (const entry of manifest.errorPages) {
+        files.add(entry.file);
+    }
+
+    if (manifest.document) {
+        files.add(manifest.document);
+    }
+
+    const modules = [...files]
+        .map(file => `    ${JSON.stringify(file)}: () => import(${JSON.stringify(path.resolve(srcDir, file))})`)
+        .join(',\n');
+
+    return [
+        `export const manifest = ${JSON.stringify(manifest)};`,
+        `export const modules = {\n${modules}\n};`,
+        'export default manifest;'
+    ].join('\n');
+}
+
+/**
+ * Creates an esbuild plugin that provides the virtual manifest module
+ *
+ * @param getManifest Returns the current route manifest
+ * @param srcDir Root directory of the source code
+ * @param target Bundle the module is for, client bundles only get pages, layouts and error pages
+ * @returns esbuild plugin
+ *
+ * @example
+ * ```typescript
+ * import { manifest, modules } from 'virtual:rytestack/manifest';
+ * ```
+ */
+export function routeManifestPlugin(
+    getManifest: () => RouteManifest | Promise<RouteManifest>,
+    srcDir: string,
+    target: BuildTarget = 'server'
+): Plugin {
+    const namespace = 'rytestack-manifest';
+
+    return {
+        name: 'rytestack-route-manifest',
+        setup(build) {
+            build.onResolve({ filter: /^virtual:rytestack\/manifest$/ }, args => ({
+                path: args.path,
+                namespace
+            }));
+
+            build.onLoad({ filter: /.*/, namespace }, async () => {
+                const manifest = await getManifest();
+
+                return {
+                    contents: generateManifestModule(target === 'client' ? getClientManifest(manifest) : manifest, srcDir),
+                    loader: 'js',
+                    resolveDir: path.resolve(srcDir)
+                };
+            });
+        }
+    };
+}
@@ -0,0 +1,272 @@
+/**
+ * @fileoverview Plugin API for Rytestack
+ *
+ * Plugins are listed in the `plugins` config field and hook into config
+ * resolution, bundling, route discovery, the server and HTML rendering.
+ */
+import type { BuildOptions, Plugin as EsbuildPlugin } from 'esbuild';
+import type { ConfigMode, RytestackConfig, UserConfig } from './config';
+import type { ApiRoute, Route } from './routing';
+
+/**
+ * Bundle a build hook is called for
+ */
+export type BuildTarget = 'client' | 'server';
+
+/**
+ * Context passed to plugin hooks
+ */
+export interface PluginContext {
+    /**
+     * Resolved configuration
+     */
+    config: RytestackConfig;
+
+    /**
+     * Mode the configuration was loaded for
+     */
+    mode: ConfigMode;
+}
+
+/**
+ * Context passed to build hooks
+ */
+export interface BuildHookContext extends PluginContext {
+    /**
+     * Bundle being built
+     */
+    target: BuildTarget;
+}
+
+/**
+ * Context passed to the HTML transform hook
+ */
+export interface HtmlHookContext extends PluginContext {
+    /**
+     * URL path of the rendered page
+     */
+    path: string;
+}
+
+/**
+ * Server middleware contributed by a plugin
+ *
+ * Structurally the same as the `Middleware` of `@rytestack/server`.
+ */
+export interface PluginMiddleware {
+    /**
+     * Middleware name
+     */
+    name: string;
+
+    /**
+     * Middleware handler
+     */
+    handler: (c: any, next: () => Promise<void>) => Promise<void> | void;
+}
+
+/**
+ * Value that may be returned synchronously or as a promise
+ */
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Rytestack plugin
+ *
+ * Every hook is optional. Hooks run in the order plugins are listed, with
+ * `enforce: 'pre'` plugins first and `enforce: 'post'` plugins last.
+ *
+ * @example
+ * ```typescript
+ * const timing = definePlugin({
+ *     name: 'timing',
+ *     middleware: () => [{
+ *         name: 'timing',
+ *         handler: async (c, next) => {
+ *             const start = Date.now();
+ *             await next();
+ *             c.header('Server-Timing', `total;dur=${Date.now() - start}`);
+ *         }
+ *     }]
+ * });
+ * ```
+ */
+export interface RytestackPlugin {
+    /**
+     * Plugin name, used in errors
+     */
+    name: string;
+
+    /**
+     * Moves the plugin before or after the others
+     */
+    enforce?: 'pre' | 'post';
+
+    /**
+     * Modifies the user configuration before it's validated
+     *
+     * Returned values are deeply merged into the configuration.
+     */
+    config?: (config: UserConfig, env: { mode: ConfigMode }) => MaybePromise<UserConfig | void>;
+
+    /**
+     * Called with the final configuration
+     */
+    configResolved?: (config: RytestackConfig) => MaybePromise<void>;
+
+    /**
+     * Adds esbuild plugins to the client or server build
+     */
+    esbuildPlugins?: (context: BuildHookContext) => EsbuildPlugin[];
+
+    /**
+     * Modifies the esbuild options of the client or server build
+     */
+    buildOptions?: (options: BuildOptions, context: BuildHookContext) => BuildOptions | void;
+
+    /**
+     * Modifies the discovered page routes
+     */
+    routes?: (routes: Route[], context: PluginContext) => MaybePromise<Route[] | void>;
+
+    /**
+     * Modifies the discovered API routes
+     */
+    apiRoutes?: (routes: ApiRoute[], context: PluginContext) => MaybePromise<ApiRoute[] | void>;
+
+    /**
+     * Registers server middleware, applied to every request
+     */
+    middleware?: (context: PluginContext) => PluginMiddleware[];
+
+    /**
+     * Transforms the HTML document of a rendered page
+     */
+    transformHtml?: (html: string, context: HtmlHookContext) => MaybePromise<string | void>;
+}
+
+/**
+ * Typed helper for writing plugins
+ *
+ * @param plugin Plugin definition
+ * @returns The plugin as passed
+ */
+export function definePlugin(plugin: RytestackPlugin): RytestackPlugin {
+    return plugin;
+}
+
+/**
+ * Sorts plugins by their `enforce` option, keeping the listed order otherwise
+ *
+ * @param plugins Plugins in listed order
+ * @returns Plugins in hook order
+ */
+export function sortPlugins(plugins: RytestackPlugin[] = []): RytestackPlugin[] {
+    const order = { pre: 0, normal: 1, post: 2 };
+
+    return [...plugins].sort((a, b) => order[a.enforce || 'normal'] - order[b.enforce || 'normal']);
+}
+
+/**
+ * Creates the hook context of a configuration
+ */
+function getPluginContext(config: RytestackConfig): PluginContext {
+    return { config, mode: config.mode };
+}
+
+/**
+ * Runs a hook, naming the plugin in errors it throws
+ */
+async function runHook<T>(plugin: RytestackPlugin, hook: string, run: () => MaybePromise<T>): Promise<T> {
+    try {
+        return await run();
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new Error(`Plugin "${plugin.name}" failed in ${hook}: ${reason}`);
+    }
+}
+
+/**
+ * Runs the `esbuildPlugins` and `buildOptions` hooks for a build
+ *
+ * @param options esbuild options created by the framework
+ * @param config Resolved configuration
+ * @param target Bundle being built
+ * @returns esbuild options with plugin changes applied
+ */
+export function applyBuildHooks(options: BuildOptions, config: RytestackConfig, target: BuildTarget): BuildOptions {
+    const context: BuildHookContext = { ...getPluginContext(config), target };
+    let result: BuildOptions = { ...options };
+
+    for (const plugin of sortPlugins(config.plugins)) {
+        if (plugin.esbuildPlugins) {
+            result.plugins = [...(result.plugins || []), ...plugin.esbuildPlugins(context)];
+        }
+
+        if (plugin.buildOptions) {
+            result = plugin.buildOptions(result, context) || result;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Runs the `routes` and `apiRoutes` hooks
+ *
+ * @param routes Discovered page and API routes
+ * @param config Resolved configuration
+ * @returns Routes with plugin changes applied
+ */
+export async function applyRouteHooks(
+    routes: { routes: Route[]; apiRoutes: ApiRoute[] },
+    config: RytestackConfig
+): Promise<{ routes: Route[]; apiRoutes: ApiRoute[] }> {
+    const context = getPluginContext(config);
+    let { routes: pageRoutes, apiRoutes } = routes;
+
+    for (const plugin of sortPlugins(config.plugins)) {
+        if (plugin.routes) {
+            pageRoutes = await runHook(plugin, 'routes', () => plugin.routes!(pageRoutes, context)) || pageRoutes;
+        }
+
+        if (plugin.apiRoutes) {
+            apiRoutes = await runHook(plugin, 'apiRoutes', () => plugin.apiRoutes!(apiRoutes, context)) || apiRoutes;
+        }
+    }
+
+    return { routes: pageRoutes, apiRoutes };
+}
+
+/**
+ * Collects the server middleware registered by plugins
+ *
+ * @param config Resolved configuration
+ * @returns Middleware in hook order
+ */
+export function getPluginMiddleware(config: RytestackConfig): PluginMiddleware[] {
+    const context = getPluginContext(config);
+
+    return sortPlugins(config.plugins).flatMap(plugin => plugin.middleware?.(context) || []);
+}
+
+/**
+ * Runs the `transformHtml` hooks on a rendered document
+ *
+ * @param html Rendered HTML document
+ * @param path URL path of the page
+ * @param config Resolved configuration
+ * @returns Transformed HTML document
+ */
+export async function transformHtml(html: string, path: string, config: RytestackConfig): Promise<string> {
+    const context: HtmlHookContext = { ...getPluginContext(config), path };
+    let result = html;
+
+    for (const plugin of sortPlugins(config.plugins)) {
+        if (plugin.transformHtml) {
+            result = await runHook(plugin, 'transformHtml', () => plugin.transformHtml!(result, context)) || result;
+        }
+    }
+
+    return result;
+}
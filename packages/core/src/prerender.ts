@@ -0,0 +1,88 @@
+/**
+ * @fileoverview Static pre-rendering for Rytestack
+ *
+ * Lists the URL paths of a route manifest for static output and maps
+ * them to the HTML files written by the build.
+ */
+import { ManifestRoute } from './manifest';
+import { href } from './href';
+
+/**
+ * Parameters of a dynamic route to pre-render
+ */
+export interface StaticPath {
+    /**
+     * Route parameters, rest parameters take an array of segments
+     */
+    params: Record<string, string | string[]>;
+}
+
+/**
+ * Lists the parameters a dynamic page is pre-rendered with,
+ * exported by the page as `getStaticPaths`
+ *
+ * @example
+ * ```typescript
+ * // pages/blog/[slug].tsx
+ * export const getStaticPaths: GetStaticPaths = async () => {
+ *     const posts = await getPosts();
+ *     return posts.map(post => ({ params: { slug: post.slug } }));
+ * };
+ * ```
+ */
+export type GetStaticPaths = () => StaticPath[] | Promise<StaticPath[]>;
+
+/**
+ * Lists the URL paths of every page to pre-render
+ *
+ * Static routes are rendered once, dynamic routes once per entry returned
+ * by their page's `getStaticPaths` export.
+ *
+ * @param routes Page routes of the manifest
+ * @param loadModule Loads a page module by its manifest path
+ * @returns URL paths, without duplicates
+ * @throws Error if a dynamic page doesn't export `getStaticPaths`
+ */
+export async function resolveStaticPaths(
+    routes: ManifestRoute[],
+    loadModule: (file: string) => Promise<any>
+): Promise<string[]> {
+    const paths = new Set<string>();
+
+    for (const route of routes) {
+        if (Object.keys(route.params).length === 0) {
+            paths.add(route.path);
+            continue;
+        }
+
+        const { getStaticPaths } = await loadModule(route.component) as { getStaticPaths?: GetStaticPaths };
+
+        if (typeof getStaticPaths !== 'function') {
+            throw new Error(`Dynamic route ${route.path} (${route.component}) must export getStaticPaths() to be pre-rendered`);
+        }
+
+        for (const { params } of await getStaticPaths()) {
+            paths.add(href(route.path, params));
+        }
+    }
+
+    return [...paths];
+}
+
+/**
+ * Maps a URL path to the HTML file serving it from a static host
+ *
+ * @param urlPath URL path
+ * @returns File path relative to the output directory
+ *
+ * @example
+ * ```typescript
+ * getStaticOutputFile('/'); // 'index.html'
+ * getStaticOutputFile('/blog/hello'); // 'blog/hello/index.html'
+ * ```
+ */
+export function getStaticOutputFile(urlPath: string): string {
+    const segments = urlPath.split('/').filter(Boolean).map(segment => decodeURIComponent(segment));
+
+    return [...segments, 'index.html'].join('/');
+}
@@ -0,0 +1,409 @@
+/**
+ * @fileoverview Redirects, rewrites and custom headers for Rytestack
+ *
+ * Matches the `redirects`, `rewrites` and `headers` rules of the config
+ * against requests, and converts them to the routing files of hosting
+ * platforms that can apply them without running the server.
+ */
+import path from 'path';
+import fs from 'fs/promises';
+import { HeaderRule, RedirectRule, RewriteRule, RouteCondition } from './config';
+import { compileRoutePath, matchRoutePath, urlPatternToRoutePath } from './routing';
+import { ensureDir, fileExists, readJson, writeJson } from './utils';
+
+/**
+ * Redirect, rewrite and header rules of a project
+ */
+export interface RouteRules {
+    redirects?: RedirectRule[];
+    rewrites?: RewriteRule[];
+    headers?: HeaderRule[];
+}
+
+/**
+ * Route paths of rule sources, so each source is only parsed once
+ */
+const sourceRoutePaths = new Map<string, string>();
+
+/**
+ * Converts a rule source to a route path
+ */
+function getSourceRoutePath(source: string): string {
+    let routePath = sourceRoutePaths.get(source);
+
+    if (!routePath) {
+        routePath = urlPatternToRoutePath(source).path;
+        sourceRoutePaths.set(source, routePath);
+    }
+
+    return routePath;
+}
+
+/**
+ * Parses the Cookie header of a request
+ *
+ * Values with malformed encodings are kept as they are.
+ */
+function parseCookies(header: string | null): Record<string, string> {
+    const cookies: Record<string, string> = {};
+
+    for (const pair of (header || '').split(';')) {
+        const index = pair.indexOf('=');
+
+        if (index > 0) {
+            const name = pair.slice(0, index).trim();
+            const value = pair.slice(index + 1).trim();
+
+            try {
+                cookies[name] = decodeURIComponent(value);
+            } catch (err) {
+                cookies[name] = value;
+            }
+        }
+    }
+
+    return cookies;
+}
+
+/**
+ * Checks a single condition against a request
+ */
+function matchesCondition(condition: RouteCondition, request: Request, url: URL): boolean {
+    let value: string | null | undefined;
+
+    switch (condition.type) {
+        case 'header':
+            value = request.headers.get(condition.key);
+            break;
+        case 'cookie':
+            value = parseCookies(request.headers.get('Cookie'))[condition.key];
+            break;
+        case 'query':
+            value = url.searchParams.get(condition.key);
+            break;
+        case 'host':
+            value = url.hostname;
+            break;
+    }
+
+    if (value === null || value === undefined) {
+        return false;
+    }
+
+    return condition.value === undefined || new RegExp(`^(?:${condition.value})$`).test(value);
+}
+
+/**
+ * Matches a redirect, rewrite or header rule against a request
+ *
+ * @param rule Rule to match
+ * @param request Incoming request
+ * @returns Parameters of the source pattern, or null if the rule doesn't apply
+ */
+export function matchRouteRule(
+    rule: { source: string; has?: RouteCondition[]; missing?: RouteCondition[] },
+    request: Request
+): Record<string, string> | null {
+    const url = new URL(request.url);
+    const params = matchRoutePath(getSourceRoutePath(rule.source), url.pathname);
+
+    if (!params) {
+        return null;
+    }
+
+    if (rule.has && !rule.has.every(condition => matchesCondition(condition, request, url))) {
+        return null;
+    }
+
+    if (rule.missing && rule.missing.some(condition => matchesCondition(condition, request, url))) {
+        return null;
+    }
+
+    return params;
+}
+
+/**
+ * Fills the `[param]` placeholders of a destination and carries over the query string
+ *
+ * Query parameters already in the destination take precedence over the
+ * ones of the request.
+ *
+ * @param destination Destination path or URL (e.g., '/news/[slug]')
+ * @param params Parameters matched from the source
+ * @param search Query string of the request
+ * @returns Destination path or URL
+ */
+export function resolveDestination(destination: string, params: Record<string, string>, search: string = ''): string {
+    const resolved = destination.replace(/(\/?)(?:\[\[\.\.\.([^\]]+)\]\]|\[\.\.\.([^\]]+)\]|\[([^\]]+)\])/g, (_, slash, optionalRest, rest, single) => {
+        const value = params[optionalRest || rest || single] ?? '';
+
+        // An empty optional catch-all drops its segment entirely
+        if (!value && optionalRest) {
+            return '';
+        }
+
+        return `${slash}${value.split('/').map(segment => encodeURIComponent(segment)).join('/')}`;
+    }) || '/';
+
+    if (!search || search === '?') {
+        return resolved;
+    }
+
+    const [base, query = ''] = resolved.split(/\?(.*)/s);
+    const merged = new URLSearchParams(search);
+
+    for (const [key, value] of new URLSearchParams(query)) {
+        merged.set(key, value);
+    }
+
+    return `${base}?${merged}`;
+}
+
+/**
+ * Gets the status code of a redirect rule
+ *
+ * @param rule Redirect rule
+ * @returns Status code
+ */
+export function getRedirectStatus(rule: RedirectRule): number {
+    return rule.statusCode || (rule.permanent ? 308 : 307);
+}
+
+/**
+ * Converts a rule source to `_redirects`/`_headers` path patterns
+ *
+ * These files only support whole-segment `:placeholders` and a trailing
+ * `*` (exposed as `:splat`).
+ *
+ * @returns Path patterns, or null if the source can't be expressed
+ */
+function toPlatformPaths(source: string): { paths: string[]; splat?: string } | null {
+    const routePath = getSourceRoutePath(source);
+    const segments = routePath.split('/').filter(Boolean);
+    const last = segments[segments.length - 1] || '';
+    const catchAll = last.match(/^:([^/]+)([+*])$/);
+
+    if (segments.some(segment => segment.includes(':') && !/^:[^/]+[+*]?$/.test(segment))) {
+        return null;
+    }
+
+    if (!catchAll) {
+        return { paths: [routePath] };
+    }
+
+    const parent = `/${segments.slice(0, -1).join('/')}`;
+    const paths = [`${parent === '/' ? '' : parent}/*`];
+
+    if (catchAll[2] === '*') {
+        paths.unshift(parent);
+    }
+
+    return { paths, splat: catchAll[1] };
+}
+
+/**
+ * Converts a destination to the placeholder syntax of `_redirects`
+ */
+function toPlatformDestination(destination: string, splat?: string): string {
+    return destination.replace(/\[\[\.\.\.([^\]]+)\]\]|\[\.\.\.([^\]]+)\]|\[([^\]]+)\]/g, (_, optionalRest, rest, single) => {
+        const name = optionalRest || rest || single;
+        return name === splat ? ':splat' : `:${name}`;
+    });
+}
+
+/**
+ * Generates a `_redirects` file (Netlify, Cloudflare Pages)
+ *
+ * Rules with conditions or partial-segment parameters can't be expressed
+ * in the file and are left to the server middleware.
+ *
+ * @param rules Route rules
+ * @returns File contents and the sources of the rules that were skipped
+ */
+export function generateRedirectsFile(rules: RouteRules): { contents: string; skipped: string[] } {
+    const lines: string[] = [];
+    const skipped: string[] = [];
+
+    const entries = [
+        ...(rules.redirects || []).map(rule => ({ rule, status: getRedirectStatus(rule) })),
+        ...(rules.rewrites || []).map(rule => ({ rule, status: 200 }))
+    ];
+
+    for (const { rule, status } of entries) {
+        const platformPaths = rule.has || rule.missing ? null : toPlatformPaths(rule.source);
+
+        if (!platformPaths) {
+            skipped.push(rule.source);
+            continue;
+        }
+
+        for (const sourcePath of platformPaths.paths) {
+            lines.push(`${sourcePath} ${toPlatformDestination(rule.destination, platformPaths.splat)} ${status}`);
+        }
+    }
+
+    return { contents: lines.length ? `${lines.join('\n')}\n` : '', skipped };
+}
+
+/**
+ * Generates a `_headers` file (Netlify, Cloudflare Pages)
+ *
+ * @param rules Route rules
+ * @returns File contents and the sources of the rules that were skipped
+ */
+export function generateHeadersFile(rules: RouteRules): { contents: string; skipped: string[] } {
+    const blocks: string[] = [];
+    const skipped: string[] = [];
+
+    for (const rule of rules.headers || []) {
+        const platformPaths = rule.has || rule.missing ? null : toPlatformPaths(rule.source);
+
+        if (!platformPaths) {
+            skipped.push(rule.source);
+            continue;
+        }
+
+        for (const sourcePath of platformPaths.paths) {
+            blocks.push([sourcePath, ...rule.headers.map(header => `  ${header.key}: ${header.value}`)].join('\n'));
+        }
+    }
+
+    return { contents: blocks.length ? `${blocks.join('\n\n')}\n` : '', skipped };
+}
+
+/**
+ * Route entry of `vercel.json`
+ */
+export interface VercelRoute {
+    src: string;
+    dest?: string;
+    status?: number;
+    headers?: Record<string, string>;
+    continue?: boolean;
+    has?: Array<{ type: string; key?: string; value?: string }>;
+    missing?: Array<{ type: string; key?: string; value?: string }>;
+}
+
+/**
+ * Converts a rule to the source regex and destination of a Vercel route
+ */
+function toVercelPattern(source: string, destination?: string): { src: string; dest?: string } {
+    const { regexp, names } = compileRoutePath(getSourceRoutePath(source));
+    const dest = destination && destination.replace(/\[\[\.\.\.([^\]]+)\]\]|\[\.\.\.([^\]]+)\]|\[([^\]]+)\]/g, (match, optionalRest, rest, single) => {
+        const index = names.indexOf(optionalRest || rest || single);
+        return index === -1 ? match : `$${index + 1}`;
+    });
+
+    return { src: regexp.source, dest };
+}
+
+/**
+ * Converts rule conditions to Vercel's format
+ */
+function toVercelConditions(conditions: RouteCondition[] | undefined): VercelRoute['has'] {
+    return conditions?.map(({ type, key, value }) => (type === 'host' ? { type, value } : { type, key, value }));
+}
+
+/**
+ * Generates the `routes` of a `vercel.json` file
+ *
+ * Header routes come first and fall through to the redirects and rewrites.
+ *
+ * @param rules Route rules
+ * @returns Vercel routes
+ */
+export function generateVercelRoutes(rules: RouteRules): VercelRoute[] {
+    const routes: VercelRoute[] = [];
+
+    for (const rule of rules.headers || []) {
+        routes.push({
+            src: toVercelPattern(rule.source).src,
+            headers: Object.fromEntries(rule.headers.map(header => [header.key, header.value])),
+            continue: true,
+            has: toVercelConditions(rule.has),
+            missing: toVercelConditions(rule.missing)
+        });
+    }
+
+    for (const rule of rules.redirects || []) {
+        const { src, dest } = toVercelPattern(rule.source, rule.destination);
+        routes.push({
+            src,
+            status: getRedirectStatus(rule),
+            headers: { Location: dest! },
+            has: toVercelConditions(rule.has),
+            missing: toVercelConditions(rule.missing)
+        });
+    }
+
+    for (const rule of rules.rewrites || []) {
+        routes.push({
+            ...toVercelPattern(rule.source, rule.destination),
+            has: toVercelConditions(rule.has),
+            missing: toVercelConditions(rule.missing)
+        });
+    }
+
+    // Drop undefined conditions, so the written JSON stays minimal
+    return routes.map(route => JSON.parse(JSON.stringify(route)));
+}
+
+/**
+ * Keys of `vercel.json` Vercel doesn't accept along with `routes`
+ */
+const VERCEL_ROUTING_KEYS = ['rewrites', 'redirects', 'headers', 'cleanUrls', 'trailingSlash'];
+
+/**
+ * Writes the routing files supported by a deployment target
+ *
+ * - `netlify`, `cloudflare`: `_redirects` and `_headers`, in the directory the platform serves
+ * - `vercel`: the `routes` of `vercel.json`, in the project root, other keys
+ *   of an existing file are kept. A file with keys Vercel rejects along with
+ *   `routes` (e.g. `rewrites`) is left as is and the rules are left to the server
+ * - `node`: nothing, the server middleware applies the rules
+ *
+ * @param dir Directory to write the files to
+ * @param rules Route rules
+ * @param target Deployment target
+ * @returns Written file paths and the sources of the rules left to the server
+ */
+export async function writePlatformRoutingFiles(
+    dir: string,
+    rules: RouteRules,
+    target: string
+): Promise<{ files: string[]; skipped: string[] }> {
+    const files: string[] = [];
+    const skipped: string[] = [];
+
+    if (target === 'netlify' || target === 'cloudflare') {
+        const redirectsFile = generateRedirectsFile(rules);
+        const headersFile = generateHeadersFile(rules);
+
+        for (const [name, file] of [['_redirects', redirectsFile], ['_headers', headersFile]] as const) {
+            skipped.push(...file.skipped);
+
+            if (file.contents) {
+                const filePath = path.join(dir, name);
+                await ensureDir(dir);
+                await fs.writeFile(filePath, file.contents, 'utf-8');
+                files.push(filePath);
+            }
+        }
+    }
+
+    if (target === 'vercel') {
+        const routes = generateVercelRoutes(rules);
+
+        const filePath = path.join(dir, 'vercel.json');
+        const existing = await fileExists(filePath) ? await readJson<Record<string, any>>(filePath) : {};
+
+        if (routes.length > 0 && VERCEL_ROUTING_KEYS.some(key => key in existing)) {
+            skipped.push(...[...(rules.headers || []), ...(rules.redirects || []), ...(rules.rewrites || [])].map(rule => rule.source));
+        } else if (routes.length > 0) {
+            await writeJson(filePath, { ...existing, routes });
+            files.push(filePath);
+        }
+    }
+
+    return { files, skipped };
+}
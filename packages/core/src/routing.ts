@@ -7,13 +7,53 @@
 import path from 'path';
 import fs from 'fs';
 import { globby } from 'globby';
+import { getExportedHttpMethods, HttpMethod } from './analysis';
+
+/**
+ * Kind of a dynamic route parameter
+ *
+ * - `single`: exactly one path segment (`[slug]`)
+ * - `rest`: one or more path segments (`[...slug]`)
+ * - `optionalRest`: zero or more path segments (`[[...slug]]`)
+ */
+export type RouteParamType = 'single' | 'rest' | 'optionalRest';
+
+/**
+ * Route parameters keyed by name
+ */
+export type RouteParams = Record<string, RouteParamType>;
+
+/**
+ * Page-level configuration, read from a page's `export const config`
+ */
+export interface PageConfig {
+    /**
+     * Whether to render the page on the server
+     */
+    ssr?: boolean;
+
+    /**
+     * Seconds after which a cached render is regenerated, false to never cache
+     */
+    revalidate?: number | false;
+
+    /**
+     * Whether to stream the server render
+     */
+    streaming?: boolean;
+
+    /**
+     * Additional framework- or plugin-specific options
+     */
+    [key: string]: any;
+}
 
 /**
  * Represents a route in the application
  */
 export interface Route {
     /**
-     * Path pattern for the route (e.g., '/blog/[slug]')
+     * Path pattern for the route (e.g., '/blog/:slug', '/docs/:slug+', '/:slug*')
      */
     path: string;
 
@@ -23,24 +63,34 @@ export interface Route {
     component: string;
 
     /**
-     * Route parameters (e.g., { slug: true } for dynamic routes)
+     * Route parameters (e.g., { slug: 'single' } for dynamic routes)
      */
-    params: Record<string, boolean>;
+    params: RouteParams;
 
     /**
-     * Optional layout for this route
+     * Optional layout for this route (the innermost `_layout` file)
      */
     layout?: string;
 
+    /**
+     * Absolute file paths of all `_layout` files wrapping this route, ordered parent to child
+     */
+    layouts: string[];
+
     /**
      * Whether this is an index route (e.g., index.tsx)
      */
     index: boolean;
 
     /**
-     * Additional metadata for the route
+     * Additional metadata for the route, read from a page's `export const meta`
      */
     meta: Record<string, any>;
+
+    /**
+     * Page configuration, read from a page's `export const config`
+     */
+    config: PageConfig;
 }
 
 /**
@@ -48,9 +98,9 @@ export interface Route {
  */
 export interface ApiRoute {
     /**
-     * HTTP method(s) this API route handles
+     * HTTP method(s) this API route handles, detected from the module's exports
      */
-    methods: string[];
+    methods: HttpMethod[];
 
     /**
      * Path pattern for the API route
@@ -65,7 +115,77 @@ export interface ApiRoute {
     /**
      * Route parameters
      */
-    params: Record<string, boolean>;
+    params: RouteParams;
+}
+
+/**
+ * Represents a `_middleware` file and the route subtree it applies to
+ */
+export interface MiddlewareRoute {
+    /**
+     * Path pattern of the folder, the middleware runs for this path and everything below it
+     */
+    path: string;
+
+    /**
+     * Absolute file path to the middleware module
+     */
+    file: string;
+
+    /**
+     * Whether the middleware lives in the pages or the API directory
+     */
+    type: 'page' | 'api';
+
+    /**
+     * Route parameters of the folder path
+     */
+    params: RouteParams;
+
+    /**
+     * Paths of the routes in the folder, set when it's inside a route group,
+     * which has no URL path of its own. The middleware then only runs for
+     * requests resolving to one of these routes instead of everything below `path`.
+     */
+    routes?: string[];
+
+    /**
+     * Paths of the routes outside the folder that are matched before its
+     * routes, requests resolving to them don't run the middleware
+     */
+    precedingRoutes?: string[];
+}
+
+/**
+ * Represents an `_error` or `_404` file and the route subtree it applies to
+ */
+export interface ErrorPageRoute {
+    /**
+     * Path pattern of the folder, the page is rendered for this path and everything below it
+     */
+    path: string;
+
+    /**
+     * Absolute file path to the page module
+     */
+    file: string;
+
+    /**
+     * Whether the page renders errors (`_error`) or unknown URLs and `notFound()` (`_404`)
+     */
+    type: 'error' | 'notFound';
+
+    /**
+     * Route parameters of the folder path
+     */
+    params: RouteParams;
+
+    /**
+     * Paths of the routes in the folder, set when it's inside a route group,
+     * which has no URL path of its own. The page then only renders errors of
+     * these routes, and never renders unknown URLs.
+     */
+    routes?: string[];
 }
 
 /**
@@ -109,6 +229,26 @@ const DEFAULT_ROUTE_OPTIONS: RouteDiscoveryOptions = {
     extensions: ['.js', '.jsx', '.ts', '.tsx']
 };
 
+/**
+ * Matches a route group folder, e.g. `(marketing)`
+ */
+const ROUTE_GROUP_PATTERN = /^\(.+\)$/;
+
+/**
+ * Matches an optional catch-all segment, e.g. `[[...slug]]`
+ */
+const OPTIONAL_REST_PATTERN = /^\[\[\.\.\.([^\]]+)\]\]$/;
+
+/**
+ * Matches a catch-all segment, e.g. `[...slug]`
+ */
+const REST_PATTERN = /^\[\.\.\.([^\]]+)\]$/;
+
+/**
+ * Matches a dynamic parameter anywhere in a segment, e.g. `[slug]`
+ */
+const PARAM_PATTERN = /\[([^\]]+)\]/g;
+
 /**
  * Converts a file path to a route path
  *
@@ -117,41 +257,442 @@ const DEFAULT_ROUTE_OPTIONS: RouteDiscoveryOptions = {
  * - pages/about.tsx -> /about
  * - pages/blog/[slug].tsx -> /blog/:slug
  * - pages/[category]/[product].tsx -> /:category/:product
+ * - pages/docs/[...slug].tsx -> /docs/:slug+
+ * - pages/[[...slug]].tsx -> /:slug*
+ * - pages/(marketing)/about.tsx -> /about
  *
  * @param filePath File path relative to pages directory
  * @returns Normalized route path
  */
-export function filePathToRoutePath(filePath: string): { path: string; params: Record<string, boolean> } {
-    // Remove file extension
-    const withoutExtension = filePath.replace(/\.[^/.]+$/, '');
+export function filePathToRoutePath(filePath: string): { path: string; params: RouteParams } {
+    // Remove file extension and normalize slashes
+    const withoutExtension = filePath.replace(/\.[^/.]+$/, '').replace(/\\/g, '/');
+
+    // Route groups don't contribute to the URL, and a trailing index maps to its directory
+    const segments = withoutExtension
+        .split('/')
+        .filter(segment => segment !== '' && !ROUTE_GROUP_PATTERN.test(segment));
+
+    if (segments[segments.length - 1] === 'index') {
+        segments.pop();
+    }
+
+    return segmentsToRoutePath(segments, filePath);
+}
+
+/**
+ * Converts a URL pattern written with the file-based `[param]` syntax to a route path
+ *
+ * Unlike filePathToRoutePath, extensions, `index` and parenthesized
+ * segments are kept as they are, since they're part of the URL.
+ *
+ * Examples:
+ * - /old-blog/[slug] -> /old-blog/:slug
+ * - /feed.xml -> /feed.xml
+ * - /docs/[...path] -> /docs/:path+
+ *
+ * @param pattern URL pattern (e.g., from a redirect source)
+ * @returns Normalized route path
+ */
+export function urlPatternToRoutePath(pattern: string): { path: string; params: RouteParams } {
+    return segmentsToRoutePath(pattern.split('/').filter(Boolean), pattern);
+}
+
+/**
+ * Converts path segments using the `[param]` syntax to a route path
+ *
+ * @param segments Path segments
+ * @param source Original file path or pattern, used in errors
+ * @returns Normalized route path
+ */
+function segmentsToRoutePath(segments: string[], source: string): { path: string; params: RouteParams } {
+    const params: RouteParams = {};
+    const addParam = (name: string, type: RouteParamType) => {
+        if (params[name]) {
+            throw new Error(`Duplicate route parameter "${name}" in ${source}`);
+        }
+        params[name] = type;
+    };
+
+    const pathSegments = segments.map((segment, index) => {
+        const optionalRest = segment.match(OPTIONAL_REST_PATTERN);
+        const rest = optionalRest ? null : segment.match(REST_PATTERN);
+
+        if (optionalRest || rest) {
+            // Catch-all segments swallow everything after them
+            if (index !== segments.length - 1) {
+                throw new Error(`Catch-all segment "${segment}" must be the last segment in ${source}`);
+            }
+
+            if (optionalRest) {
+                addParam(optionalRest[1], 'optionalRest');
+                return `:${optionalRest[1]}*`;
+            }
+
+            addParam(rest![1], 'rest');
+            return `:${rest![1]}+`;
+        }
+
+        // Replace [param] with :param for express-like routing
+        return segment.replace(PARAM_PATTERN, (_, paramName) => {
+            addParam(paramName, 'single');
+            return `:${paramName}`;
+        });
+    });
+
+    return { path: `/${pathSegments.join('/')}`, params };
+}
+
+/**
+ * Converts a route path to Hono route patterns
+ *
+ * Optional catch-all routes need two patterns, one for the bare
+ * parent path and one for the nested segments.
+ *
+ * Examples:
+ * - /blog/:slug -> ['/blog/:slug']
+ * - /docs/:slug+ -> ['/docs/:slug{.+}']
+ * - /docs/:slug* -> ['/docs', '/docs/:slug{.+}']
+ *
+ * @param routePath Route path as returned by filePathToRoutePath
+ * @returns Hono route patterns
+ */
+export function toHonoPaths(routePath: string): string[] {
+    const optionalRest = routePath.match(/^(.*)\/:([^/]+)\*$/);
+
+    if (optionalRest) {
+        const [, parentPath, paramName] = optionalRest;
+        return [parentPath || '/', `${parentPath}/:${paramName}{.+}`];
+    }
+
+    return [routePath.replace(/:([^/]+)\+$/, ':$1{.+}')];
+}
 
-    // Handle index files
-    let routePath = withoutExtension === 'index'
-        ? '/'
-        : `/${withoutExtension}`;
+/**
+ * Converts a route path to a React Router path pattern
+ *
+ * React Router only supports an unnamed splat (`*`), which also matches
+ * the bare parent path. Optional catch-all parameters are exposed as
+ * `params['*']` on the client. Required ones keep their first segment as a
+ * named parameter, so the parent path doesn't match like on the server,
+ * with the remaining segments in `params['*']`.
+ *
+ * Examples:
+ * - /blog/:slug -> /blog/:slug
+ * - /docs/:slug+ -> /docs/:slug/*
+ * - /:slug* -> /*
+ *
+ * @param routePath Route path as returned by filePathToRoutePath
+ * @returns React Router path pattern
+ */
+export function toRouterPath(routePath: string): string {
+    return routePath
+        .replace(/:([^/]+)\+$/, ':$1/*')
+        .replace(/:[^/]+\*$/, '*');
+}
 
-    // Replace directory index with parent path
-    routePath = routePath.replace(/\/index$/, '/');
+/**
+ * Compiled route path patterns, keyed by route path and match mode
+ */
+const routePatternCache = new Map<string, { regexp: RegExp; names: string[] }>();
+
+/**
+ * Compiles a route path to a regular expression
+ *
+ * Each parameter is captured by a numbered group, in the order of `names`.
+ *
+ * @param routePath Route path as returned by filePathToRoutePath
+ * @param options Set `prefix` to also match paths below the route path
+ * @returns Regular expression and the parameter names of its groups
+ */
+export function compileRoutePath(routePath: string, options: { prefix?: boolean } = {}): { regexp: RegExp; names: string[] } {
+    const prefix = options.prefix || false;
+    const key = `${prefix ? 'prefix' : 'exact'}:${routePath}`;
+    const cached = routePatternCache.get(key);
+
+    if (cached) {
+        return cached;
+    }
+
+    const names: string[] = [];
+    let source = '';
+
+    for (const segment of getSegments(routePath)) {
+        const catchAll = segment.match(/^:([^/]+)([+*])$/);
+
+        if (catchAll) {
+            names.push(catchAll[1]);
+            source += catchAll[2] === '*' ? '(?:/(.+))?' : '/(.+)';
+            continue;
+        }
+
+        source += '/' + segment.split(/(:[A-Za-z0-9_$]+)/).map(part => {
+            if (part.startsWith(':')) {
+                names.push(part.slice(1));
+                return '([^/]+)';
+            }
+            return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        }).join('');
+    }
+
+    const compiled = {
+        regexp: new RegExp(`^${source}${prefix ? '(?:/.*)?' : '/?'}$`),
+        names
+    };
+
+    routePatternCache.set(key, compiled);
+
+    return compiled;
+}
+
+/**
+ * Matches a URL pathname against a route path
+ *
+ * Catch-all parameters are returned as a single string of the matched
+ * segments (e.g., 'guide/intro'), like Hono's `c.req.param()`.
+ *
+ * @param routePath Route path as returned by filePathToRoutePath
+ * @param pathname URL pathname
+ * @param options Set `prefix` to also match paths below the route path
+ * @returns Decoded route parameters, or null if the pathname doesn't match
+ *
+ * @example
+ * ```typescript
+ * matchRoutePath('/blog/:slug', '/blog/hello'); // { slug: 'hello' }
+ * matchRoutePath('/admin', '/admin/users', { prefix: true }); // {}
+ * ```
+ */
+export function matchRoutePath(
+    routePath: string,
+    pathname: string,
+    options: { prefix?: boolean } = {}
+): Record<string, string> | null {
+    const { regexp, names } = compileRoutePath(routePath, options);
+    const match = regexp.exec(pathname);
+
+    if (!match) {
+        return null;
+    }
 
-    // Normalize slashes
-    routePath = routePath.replace(/\\/g, '/');
+    const params: Record<string, string> = {};
 
-    // Extract dynamic parameters
-    const params: Record<string, boolean> = {};
-    let expressPath = routePath;
+    names.forEach((name, index) => {
+        const value = match[index + 1];
 
-    // Replace [param] with :param for express-like routing
-    expressPath = expressPath.replace(/\[([^\]]+)\]/g, (_, paramName) => {
-        params[paramName] = true;
-        return `:${paramName}`;
+        if (value !== undefined) {
+            try {
+                params[name] = decodeURIComponent(value);
+            } catch (err) {
+                params[name] = value;
+            }
+        }
     });
 
-    return { path: expressPath, params };
+    return params;
+}
+
+/**
+ * Error thrown when two route files resolve to the same or an ambiguous path
+ */
+export class RouteConflictError extends Error {
+    /**
+     * The two conflicting files
+     */
+    readonly files: [string, string];
+
+    constructor(message: string, files: [string, string]) {
+        super(message);
+        this.name = 'RouteConflictError';
+        this.files = files;
+    }
+}
+
+/**
+ * Rank of a single path segment, lower ranks are more specific
+ *
+ * @param segment Path segment (e.g., 'blog', ':slug', ':slug+')
+ * @returns Segment rank
+ */
+function getSegmentRank(segment: string | undefined): number {
+    if (segment === undefined) return -1;
+    if (/^:[^/]+\*$/.test(segment)) return 4;
+    if (/^:[^/]+\+$/.test(segment)) return 3;
+    if (/^:[^/]+$/.test(segment)) return 2;
+    if (segment.includes(':')) return 1;
+    return 0;
+}
+
+/**
+ * Splits a route path into its segments
+ */
+function getSegments(routePath: string): string[] {
+    return routePath.split('/').filter(Boolean);
+}
+
+/**
+ * Compares two route paths by specificity
+ *
+ * Static segments come before dynamic ones, which come before catch-all
+ * segments. Ties are broken alphabetically so the order is deterministic.
+ *
+ * @param a First route path
+ * @param b Second route path
+ * @returns Negative if `a` should be matched first, positive if `b` should
+ */
+export function compareRoutePaths(a: string, b: string): number {
+    const aSegments = getSegments(a);
+    const bSegments = getSegments(b);
+    const length = Math.max(aSegments.length, bSegments.length);
+
+    for (let i = 0; i < length; i++) {
+        const difference = getSegmentRank(aSegments[i]) - getSegmentRank(bSegments[i]);
+
+        if (difference !== 0) {
+            return difference;
+        }
+    }
+
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Gets the shape of a route path, ignoring parameter names
+ *
+ * Two routes with the same shape match exactly the same URLs.
+ */
+function getRouteShape(routePath: string): string {
+    return getSegments(routePath)
+        .map(segment => getSegmentRank(segment) >= 3
+            ? '[...]'
+            : segment.replace(/:[^/]+/g, '[]'))
+        .join('/');
+}
+
+/**
+ * Sorts routes by specificity and checks them for conflicts
+ *
+ * @param routes Routes to rank
+ * @param getFile Returns the source file of a route, used in error messages
+ * @returns A new array with the routes in matching order
+ * @throws RouteConflictError if two routes are duplicate or ambiguous
+ */
+export function rankRoutes<T extends { path: string }>(routes: T[], getFile: (route: T) => string): T[] {
+    const shapes = new Map<string, T>();
+
+    for (const route of routes) {
+        const shape = getRouteShape(route.path);
+        const existing = shapes.get(shape);
+
+        if (existing) {
+            const files: [string, string] = [getFile(existing), getFile(route)];
+            const message = existing.path === route.path
+                ? `Duplicate route "${route.path}" defined by ${files[0]} and ${files[1]}`
+                : `Ambiguous routes "${existing.path}" (${files[0]}) and "${route.path}" (${files[1]}) match the same URLs`;
+
+            throw new RouteConflictError(message, files);
+        }
+
+        shapes.set(shape, route);
+    }
+
+    // An optional catch-all also matches its parent path
+    for (const route of routes) {
+        const optionalRest = route.path.match(/^(.*)\/:[^/]+\*$/);
+
+        if (!optionalRest) continue;
+
+        const parent = shapes.get(getRouteShape(optionalRest[1] || '/'));
+
+        if (parent) {
+            const files: [string, string] = [getFile(parent), getFile(route)];
+            throw new RouteConflictError(
+                `Ambiguous routes "${parent.path}" (${files[0]}) and "${route.path}" (${files[1]}) both match "${parent.path}"`,
+                files
+            );
+        }
+    }
+
+    return [...routes].sort((a, b) => compareRoutePaths(a.path, b.path));
+}
+
+/**
+ * Glob patterns for files and folders that are never routes, relative to the routes directory
+ *
+ * Underscore-prefixed files are reserved for special files such as `_layout.tsx`.
+ */
+const SPECIAL_FILE_IGNORE = ['**/_*', '**/_*/**'];
+
+/**
+ * Finds the route files of a directory tree
+ *
+ * Globs run relative to the directory, so folders above it whose names
+ * start with an underscore (e.g. `/home/me/_work/app`) don't hide routes.
+ *
+ * @param rootPath Directory to search
+ * @param extensions File extensions to consider
+ * @returns File paths, joined to rootPath
+ */
+async function discoverRouteFiles(rootPath: string, extensions: string[]): Promise<string[]> {
+    const patterns = extensions.map(ext => `**/*${ext}`);
+    const files = await globby(patterns, { cwd: rootPath, ignore: SPECIAL_FILE_IGNORE });
+
+    return files.map(file => path.join(rootPath, file));
+}
+
+/**
+ * Finds special files (e.g. `_layout.tsx`) in a directory tree
+ *
+ * @param rootPath Directory to search
+ * @param name Special file name without extension (e.g. '_layout')
+ * @param extensions File extensions to consider
+ * @returns Map of directory (relative to rootPath, '' for the root) to absolute file path
+ */
+async function discoverSpecialFiles(rootPath: string, name: string, extensions: string[]): Promise<Map<string, string>> {
+    const patterns = extensions.map(ext => `**/${name}${ext}`);
+    const files = (await globby(patterns, { cwd: rootPath })).map(file => path.join(rootPath, file));
+    const specialFiles = new Map<string, string>();
+
+    for (const file of files.sort()) {
+        const dir = path.relative(rootPath, path.dirname(file)).replace(/\\/g, '/');
+
+        if (specialFiles.has(dir)) {
+            throw new RouteConflictError(`Multiple ${name} files in the same folder: ${specialFiles.get(dir)} and ${file}`, [specialFiles.get(dir)!, file]);
+        }
+
+        specialFiles.set(dir, file);
+    }
+
+    return specialFiles;
+}
+
+/**
+ * Collects the special files that apply to a file, ordered parent to child
+ *
+ * @param relativePath File path relative to the root of the special files
+ * @param specialFiles Special files by directory
+ * @returns Absolute file paths of the applicable special files
+ */
+function getSpecialFileChain(relativePath: string, specialFiles: Map<string, string>): string[] {
+    const dirs = relativePath.replace(/\\/g, '/').split('/').slice(0, -1);
+    const chain: string[] = [];
+
+    for (let i = 0; i <= dirs.length; i++) {
+        const file = specialFiles.get(dirs.slice(0, i).join('/'));
+
+        if (file) {
+            chain.push(file);
+        }
+    }
+
+    return chain;
 }
 
 /**
  * Discovers all page routes in the application
  *
+ * Files and folders starting with an underscore are not routes. A `_layout`
+ * file wraps every route in its folder and all subfolders.
+ *
  * @param options Route discovery options
  * @returns Array of discovered routes
  */
@@ -166,8 +707,10 @@ export async function discoverRoutes(options: Partial<RouteDiscoveryOptions> = {
     }
 
     // Find all page files
-    const patterns = config.extensions!.map(ext => `${pagesPath}/**/*${ext}`);
-    const files = await globby(patterns);
+    const files = await discoverRouteFiles(pagesPath, config.extensions!);
+
+    // Find layouts
+    const layouts = await discoverSpecialFiles(pagesPath, '_layout', config.extensions!);
 
     // Convert to routes
     const routes: Route[] = [];
@@ -176,17 +719,21 @@ export async function discoverRoutes(options: Partial<RouteDiscoveryOptions> = {
         // Get path relative to pages directory
         const relativePath = path.relative(pagesPath, file);
         const { path: routePath, params } = filePathToRoutePath(relativePath);
+        const layoutChain = getSpecialFileChain(relativePath, layouts);
 
         routes.push({
             path: routePath,
             component: file,
             params,
+            layout: layoutChain[layoutChain.length - 1],
+            layouts: layoutChain,
             index: relativePath.includes('index.'),
-            meta: {} // Metadata will be extracted from components during build
+            meta: {}, // Extracted from the page module during build
+            config: {}
         });
     }
 
-    return routes;
+    return rankRoutes(routes, route => route.component);
 }
 
 /**
@@ -206,8 +753,7 @@ export async function discoverApiRoutes(options: Partial<RouteDiscoveryOptions>
     }
 
     // Find all API files
-    const patterns = config.extensions!.map(ext => `${apiPath}/**/*${ext}`);
-    const files = await globby(patterns);
+    const files = await discoverRouteFiles(apiPath, config.extensions!);
 
     // Convert to API routes
     const apiRoutes: ApiRoute[] = [];
@@ -217,15 +763,179 @@ export async function discoverApiRoutes(options: Partial<RouteDiscoveryOptions>
         const relativePath = path.relative(apiPath, file);
         const { path: routePath, params } = filePathToRoutePath(relativePath);
 
-        // TODO: Parse the file to determine the HTTP methods
-        // For now, we'll default to handling all methods
+        // Determine the HTTP methods from the module's exported handlers
+        const methods = await getExportedHttpMethods(file);
+
+        if (methods.length === 0) {
+            console.warn(`API route exports no HTTP method handlers: ${file}`);
+            continue;
+        }
+
         apiRoutes.push({
-            methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
-            path: `/api${routePath}`,
+            methods,
+            path: routePath === '/' ? '/api' : `/api${routePath}`,
             handler: file,
             params
         });
     }
 
-    return apiRoutes;
-}
\ No newline at end of file
+    return rankRoutes(apiRoutes, route => route.handler);
+}
+
+/**
+ * Checks whether a folder is, or is inside, a route group folder
+ *
+ * @param dir Folder relative to the routes directory
+ */
+function isInRouteGroup(dir: string): boolean {
+    return dir.split('/').some(segment => ROUTE_GROUP_PATTERN.test(segment));
+}
+
+/**
+ * Gets the routes of the files in a folder, and the routes outside it matched before them
+ *
+ * Folders inside a route group have no URL path of their own, so their
+ * special files apply to the routes of their files, like layouts do.
+ *
+ * @param routeFiles Route files relative to the routes directory
+ * @param dir Folder relative to the routes directory
+ * @param basePath Path the routes directory is served under
+ * @returns Route paths in matching order
+ */
+function getFolderRoutes(routeFiles: string[], dir: string, basePath: string): { routes: string[]; precedingRoutes: string[] } {
+    const toRoutePath = (file: string) => {
+        const { path: routePath } = filePathToRoutePath(file);
+        return routePath === '/' ? basePath || '/' : `${basePath}${routePath}`;
+    };
+    const isInside = (file: string) => file.startsWith(`${dir}/`);
+
+    const routes = routeFiles.filter(isInside).map(toRoutePath).sort(compareRoutePaths);
+    const last = routes[routes.length - 1];
+    const precedingRoutes = routeFiles
+        .filter(file => !isInside(file))
+        .map(toRoutePath)
+        .filter(routePath => last !== undefined && compareRoutePaths(routePath, last) < 0)
+        .sort(compareRoutePaths);
+
+    return { routes, precedingRoutes };
+}
+
+/**
+ * Lists the route files of a directory tree relative to it
+ */
+async function discoverRelativeRouteFiles(rootPath: string, extensions: string[]): Promise<string[]> {
+    const files = await discoverRouteFiles(rootPath, extensions);
+
+    return files.map(file => path.relative(rootPath, file).replace(/\\/g, '/'));
+}
+
+/**
+ * Discovers `_middleware` files in the pages and API directories
+ *
+ * A `_middleware` file applies to every route in its folder and all
+ * subfolders. In a route group folder, which has no URL path, it only
+ * applies to the routes in the folder. Middleware files are returned
+ * ordered parent to child, page middleware before API middleware.
+ *
+ * @param options Route discovery options
+ * @returns Array of discovered middleware files
+ */
+export async function discoverMiddleware(options: Partial<RouteDiscoveryOptions> = {}): Promise<MiddlewareRoute[]> {
+    const config = { ...DEFAULT_ROUTE_OPTIONS, ...options };
+    const roots = [
+        { type: 'page' as const, rootPath: path.join(config.srcDir, config.pagesDir || 'pages'), basePath: '' },
+        { type: 'api' as const, rootPath: path.join(config.srcDir, config.apiDir || 'api'), basePath: '/api' }
+    ];
+
+    const middleware: MiddlewareRoute[] = [];
+
+    for (const { type, rootPath, basePath } of roots) {
+        if (!fs.existsSync(rootPath)) {
+            continue;
+        }
+
+        const files = await discoverSpecialFiles(rootPath, '_middleware', config.extensions!);
+        const routeFiles = await discoverRelativeRouteFiles(rootPath, config.extensions!);
+        const entries = [...files.entries()]
+            .map(([dir, file]) => ({ dir, file, depth: dir ? dir.split('/').length : 0 }))
+            .sort((a, b) => a.depth - b.depth || a.dir.localeCompare(b.dir));
+
+        for (const { dir, file } of entries) {
+            // Resolve the folder like an index route, so groups and params are handled the same way
+            const { path: routePath, params } = filePathToRoutePath(dir ? `${dir}/index` : 'index');
+
+            middleware.push({
+                path: routePath === '/' ? basePath || '/' : `${basePath}${routePath}`,
+                file,
+                type,
+                params,
+                ...(isInRouteGroup(dir) ? getFolderRoutes(routeFiles, dir, basePath) : {})
+            });
+        }
+    }
+
+    return middleware;
+}
+
+/**
+ * Discovers `_error` and `_404` files in the pages directory
+ *
+ * Like `_middleware`, each file applies to every route in its folder and
+ * all subfolders, the deepest one wins. In a route group folder, it only
+ * applies to the routes in the folder. Files are returned ordered parent
+ * to child.
+ *
+ * @param options Route discovery options
+ * @returns Array of discovered error pages
+ */
+export async function discoverErrorPages(options: Partial<RouteDiscoveryOptions> = {}): Promise<ErrorPageRoute[]> {
+    const config = { ...DEFAULT_ROUTE_OPTIONS, ...options };
+    const pagesPath = path.join(config.srcDir, config.pagesDir || 'pages');
+
+    if (!fs.existsSync(pagesPath)) {
+        return [];
+    }
+
+    const routeFiles = await discoverRelativeRouteFiles(pagesPath, config.extensions!);
+    const errorPages: (ErrorPageRoute & { depth: number })[] = [];
+
+    for (const [name, type] of [['_error', 'error'], ['_404', 'notFound']] as const) {
+        for (const [dir, file] of await discoverSpecialFiles(pagesPath, name, config.extensions!)) {
+            // Resolve the folder like an index route, so groups and params are handled the same way
+            const { path: routePath, params } = filePathToRoutePath(dir ? `${dir}/index` : 'index');
+
+            errorPages.push({
+                path: routePath,
+                file,
+                type,
+                params,
+                ...(isInRouteGroup(dir) ? { routes: getFolderRoutes(routeFiles, dir, '').routes } : {}),
+                depth: dir ? dir.split('/').length : 0
+            });
+        }
+    }
+
+    return errorPages
+        .sort((a, b) => a.depth - b.depth || a.file.localeCompare(b.file))
+        .map(({ depth, ...errorPage }) => errorPage);
+}
+
+/**
+ * Discovers the `_document` file at the root of the pages directory
+ *
+ * The document renders the HTML around every page. Only the root of the
+ * pages directory is searched, `_document` files in subfolders are ignored.
+ *
+ * @param options Route discovery options
+ * @returns Absolute path to the document file, or undefined for the default document
+ */
+export async function discoverDocument(options: Partial<RouteDiscoveryOptions> = {}): Promise<string | undefined> {
+    const config = { ...DEFAULT_ROUTE_OPTIONS, ...options };
+    const pagesPath = path.join(config.srcDir, config.pagesDir || 'pages');
+
+    if (!fs.existsSync(pagesPath)) {
+        return undefined;
+    }
+
+    return (await discoverSpecialFiles(pagesPath, '_document', config.extensions!)).get('');
+}
@@ -0,0 +1,154 @@
+/**
+ * @fileoverview Route type generation for Rytestack
+ *
+ * Generates a declaration file that registers every discovered page
+ * route, so `href()` and framework links only accept known paths.
+ */
+import path from 'path';
+import fs from 'fs/promises';
+import { Route, RouteParamType } from './routing';
+import { ensureDir } from './utils';
+
+/**
+ * Default location of the generated route types, relative to the project root
+ */
+export const ROUTE_TYPES_FILE = '.rytestack/types/routes.d.ts';
+
+/**
+ * TypeScript type of a route parameter value
+ */
+const PARAM_VALUE_TYPES: Record<RouteParamType, string> = {
+    single: 'string',
+    rest: 'string[]',
+    optionalRest: 'string[]'
+};
+
+/**
+ * Generates the declaration file registering the given routes
+ *
+ * @param routes Discovered page routes
+ * @returns Declaration file contents
+ */
+export function generateRouteTypes(routes: Route[]): string {
+    const entries = routes.map(route => {
+        const params = Object.entries(route.params).map(([name, type]) => {
+            const optional = type === 'optionalRest' ? '?' : '';
+            return `${JSON.stringify(name)}${optional}: ${PARAM_VALUE_TYPES[type]}`;
+        });
+
+        return `        ${JSON.stringify(route.path)}: ${params.length ? `{ ${params.join('; ')} }` : '{}'};`;
+    });
+
+    return [
+        '// Generated by Rytestack from your pages directory. Do not edit.',
+        "import '@rytestack/core';",
+        '',
+        "declare module '@rytestack/core' {",
+        '    interface RegisteredRoutes {',
+        ...entries,
+        '    }',
+        '}',
+        ''
+    ].join('\n');
+}
+
+/**
+ * Options for generating the virtual module declarations
+ */
+export interface VirtualModuleTypesOptions {
+    /**
+     * Config file, relative to the declaration file, used to type `env`
+     */
+    configFile?: string;
+}
+
+/**
+ * Generates the ambient declarations of Rytestack's virtual modules
+ *
+ * These must live in a separate script file, as module augmentations
+ * (like the route types) can't declare new modules. The `env` module is
+ * typed from the `env` schemas of the config file, with each variable
+ * typed by the raw string values its schema accepts.
+ *
+ * @param options Declaration options
+ * @returns Declaration file contents
+ */
+export function generateVirtualModuleTypes(options: VirtualModuleTypesOptions = {}): string {
+    const configImport = options.configFile && options.configFile
+        .replace(/\\/g, '/')
+        .replace(/\.[cm]?[jt]s$/, '')
+        .replace(/^(?!\.)/, './');
+
+    const envTypes = configImport
+        ? [
+            `    type Config = typeof import(${JSON.stringify(configImport)}).default;`,
+            '    type ResolvedConfig = Config extends (...args: any[]) => infer R ? Awaited<R> : Config;',
+            '    type Schema = ResolvedConfig extends { env?: infer E } ? NonNullable<E> : {};',
+            '',
+            '    export const env: {',
+            '        readonly [K in keyof Schema]: Schema[K] extends { _input: infer T } ? (T extends string | undefined ? T : string) : string;',
+            '    };'
+        ]
+        : ['    export const env: Readonly<Record<string, string | undefined>>;'];
+
+    return [
+        '// Generated by Rytestack. Do not edit.',
+        "declare module 'virtual:rytestack/manifest' {",
+        "    import type { RouteManifest } from '@rytestack/core';",
+        '',
+        '    export const manifest: RouteManifest;',
+        '    export const modules: Record<string, () => Promise<any>>;',
+        '    export default manifest;',
+        '}',
+        '',
+        "declare module 'virtual:rytestack/env' {",
+        ...envTypes,
+        '    export default env;',
+        '}',
+        ''
+    ].join('\n');
+}
+
+/**
+ * Writes a file only when its contents change, so editors and type
+ * checkers watching it aren't triggered needlessly
+ *
+ * @param filePath Output file path
+ * @param contents File contents
+ * @returns Whether the file was written
+ */
+async function writeIfChanged(filePath: string, contents: string): Promise<boolean> {
+    try {
+        if (await fs.readFile(filePath, 'utf-8') === contents) {
+            return false;
+        }
+    } catch (err) {
+        // File doesn't exist yet
+    }
+
+    await ensureDir(path.dirname(filePath));
+    await fs.writeFile(filePath, contents, 'utf-8');
+
+    return true;
+}
+
+/**
+ * Writes the route declaration file and the virtual module declarations next to it
+ *
+ * @param routes Discovered page routes
+ * @param outFile Output file path
+ * @param options Set `configFile` to the project's config file to type `env`
+ * @returns Whether the route declarations changed
+ */
+export async function writeRouteTypes(
+    routes: Route[],
+    outFile: string = ROUTE_TYPES_FILE,
+    options: { configFile?: string } = {}
+): Promise<boolean> {
+    const typesDir = path.dirname(outFile);
+    const configFile = options.configFile && path.relative(path.resolve(typesDir), path.resolve(options.configFile));
+
+    await writeIfChanged(path.join(typesDir, 'virtual.d.ts'), generateVirtualModuleTypes({ configFile }));
+
+    return writeIfChanged(outFile, generateRouteTypes(routes));
+}
@@ -0,0 +1,172 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { StaticAnalysisError, getAllowHeader, getExportedHttpMethods, getStaticExports, stripServerCode } from '../src/analysis';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rytestack-analysis-'));
+let count = 0;
+
+/**
+ * Writes a module to a temporary file
+ */
+function writeModule(source: string, extension = 'tsx'): string {
+    const file = path.join(dir, `module-${count++}.${extension}`);
+    fs.writeFileSync(file, source);
+    return file;
+}
+
+afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('getStaticExports', () => {
+    it('reads literal exports of typed modules with JSX', async () => {
+        const file = writeModule(`
+            import type { PageConfig } from '@rytestack/core';
+
+            export const config: PageConfig = { ssr: false, revalidate: 60, streaming: undefined } satisfies PageConfig;
+            export const meta = {
+                title: 'It\\'s "quoted"',
+                'og:image': \`/og.png\`,
+                tags: ['a', "b\\n"],
+                order: -1,
+                ratio: 1.5e2,
+                extra: null
+            } as const;
+
+            export default function Page() {
+                return <h1>{meta.title}</h1>;
+            }
+        `);
+
+        expect(await getStaticExports(file, ['config', 'meta'])).toEqual({
+            config: { ssr: false, revalidate: 60, streaming: undefined },
+            meta: { title: 'It\'s "quoted"', 'og:image': '/og.png', tags: ['a', 'b\n'], order: -1, ratio: 150, extra: null }
+        });
+    });
+
+    it('reads constants exported by name', async () => {
+        const file = writeModule(`
+            const pageConfig = { revalidate: 10 };
+            const meta = { title: 'Aliased' };
+            export { pageConfig as config, meta };
+        `, 'ts');
+
+        expect(await getStaticExports(file, ['config', 'meta'])).toEqual({
+            config: { revalidate: 10 },
+            meta: { title: 'Aliased' }
+        });
+    });
+
+    it('leaves out missing and unexported names', async () => {
+        const file = writeModule(`
+            const config = { ssr: false };
+            export default function Page() { return null; }
+        `);
+
+        expect(await getStaticExports(file, ['config', 'meta'])).toEqual({});
+    });
+
+    it('is not fooled by similar code in strings and functions', async () => {
+        const file = writeModule(`
+            const text = 'export const config = { ssr: false }';
+            function setup() { const config = { ssr: false }; return config; }
+            export const config = { revalidate: 5 };
+        `);
+
+        expect(await getStaticExports(file, ['config'])).toEqual({ config: { revalidate: 5 } });
+    });
+
+    it('rejects exports that need the module to run', async () => {
+        const file = writeModule(`
+            const base = { ssr: true };
+            export const config = { ...base, revalidate: Number('60') };
+        `);
+
+        await expect(getStaticExports(file, ['config'])).rejects.toThrow(StaticAnalysisError);
+        await expect(getStaticExports(file, ['config'])).rejects.toThrow(/Export "config" must be a literal value/);
+    });
+
+    it('rejects template literals with expressions', async () => {
+        const file = writeModule('const year = 2024; export const meta = { title: `Blog ${year}` };');
+
+        await expect(getStaticExports(file, ['meta'])).rejects.toThrow(/Template literals with expressions/);
+    });
+});
+
+describe('getExportedHttpMethods', () => {
+    it('detects method handlers, including aliases', async () => {
+        const file = writeModule(`
+            export const get = () => new Response('ok');
+            export async function POST() { return new Response('created'); }
+            export { remove as del };
+            function remove() { return new Response(null, { status: 204 }); }
+            export const helper = 1;
+        `, 'ts');
+
+        expect(await getExportedHttpMethods(file)).toEqual(['GET', 'POST', 'DELETE']);
+    });
+});
+
+describe('getAllowHeader', () => {
+    it('lists methods in canonical order with HEAD for GET', () => {
+        expect(getAllowHeader(['post', 'GET'])).toBe('GET, HEAD, POST');
+        expect(getAllowHeader(['PUT'])).toBe('PUT');
+    });
+});
+
+describe('stripServerCode', () => {
+    const options = { properties: ['getInitialData'], exports: ['getStaticPaths'] };
+
+    it('replaces server-only properties with functions throwing on the client', () => {
+        const code = stripServerCode([
+            "import { db } from './db';",
+            'export default function Page() { return null; }',
+            'Page.getInitialData = async () => db.posts();',
+            'Page.layout = "blog";'
+        ].join('\n'), options);
+
+        expect(code).not.toContain('db.posts');
+        expect(code).toContain('Page.getInitialData = () => { throw new Error("getInitialData() only runs on the server"); };');
+        expect(code).toContain('Page.layout = "blog";');
+    });
+
+    it('removes server-only exports and the declarations only they use', () => {
+        const code = stripServerCode([
+            'const slugs = ["a", "b"];',
+            'function toPaths(list) { return list.map(slug => ({ params: { slug } })); }',
+            'const title = "Blog";',
+            'export async function getStaticPaths() { return toPaths(slugs); }',
+            'async function load() { return { title }; }',
+            'export default function Page() { return title; }',
+            'Page.getInitialData = load;'
+        ].join('\n'), options);
+
+        expect(code).not.toMatch(/getStaticPaths|toPaths|slugs|function load/);
+        expect(code).toContain('const title = "Blog";');
+    });
+
+    it('removes server-only names from export lists', () => {
+        const code = stripServerCode([
+            'const paths = () => [];',
+            'const size = 10;',
+            'export { paths as getStaticPaths, size };',
+            "export { getStaticPaths as otherPaths } from './other';"
+        ].join('\n'), options);
+
+        expect(code).not.toMatch(/paths =|as getStaticPaths/);
+        expect(code).toContain('export {  size };');
+        expect(code).toContain("export { getStaticPaths as otherPaths } from './other';");
+    });
+
+    it('removes re-exports of server-only names', () => {
+        expect(stripServerCode("export { getStaticPaths } from './paths';", options).trim()).toBe('');
+    });
+
+    it('keeps the line count', () => {
+        const code = 'Page.getInitialData = async () => {\n    return 1;\n};\nexport const x = 1;';
+
+        expect(stripServerCode(code, options).split('\n')).toHaveLength(4);
+    });
+});
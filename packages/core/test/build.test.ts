@@ -0,0 +1,68 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { build } from 'esbuild';
+import { afterEach, describe, expect, it } from 'vitest';
+import { clientModulesPlugin } from '../src/build';
+import { LoadedEnv } from '../src/env';
+
+const dirs: string[] = [];
+
+/**
+ * Bundles a module of a temporary project for the client
+ */
+async function bundle(files: Record<string, string>, entry: string, env: LoadedEnv): Promise<string> {
+    const srcDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rytestack-build-'));
+
+    dirs.push(srcDir);
+
+    for (const [file, source] of Object.entries(files)) {
+        fs.mkdirSync(path.dirname(path.join(srcDir, file)), { recursive: true });
+        fs.writeFileSync(path.join(srcDir, file), source);
+    }
+
+    const result = await build({
+        entryPoints: [path.join(srcDir, entry)],
+        bundle: true,
+        write: false,
+        format: 'esm',
+        jsx: 'automatic',
+        external: ['react'],
+        logLevel: 'silent',
+        plugins: [clientModulesPlugin({ srcDir, env })]
+    });
+
+    return result.outputFiles[0].text;
+}
+
+afterEach(() => {
+    dirs.splice(0).forEach(dir => fs.rmSync(dir, { recursive: true, force: true }));
+});
+
+describe('clientModulesPlugin', () => {
+    const env = { variables: { DB_URL: 'postgres://db' }, values: {} };
+
+    it('removes loaders, actions, getStaticPaths and the imports only they use from pages', async () => {
+        const code = await bundle({
+            'lib/db.ts': 'export const db = { get: (url: string) => url };',
+            'pages/post.tsx': [
+                "import { db } from '../lib/db';",
+                'export default function Post() { return <h1>Post</h1>; }',
+                'Post.getInitialData = async () => db.get(process.env.DB_URL!);',
+                'Post.action = async () => db.get("action");',
+                'export const getStaticPaths = async () => [db.get("paths")];'
+            ].join('\n')
+        }, 'pages/post.tsx', env);
+
+        expect(code).toContain('only runs on the server');
+        expect(code).not.toContain('DB_URL');
+        expect(code).not.toContain('db.get');
+        expect(code).not.toContain('getStaticPaths');
+    });
+
+    it('still fails when a component uses a server-only variable', async () => {
+        await expect(bundle({
+            'pages/index.tsx': 'export default function Home() { return <p>{process.env.DB_URL}</p>; }'
+        }, 'pages/index.tsx', env)).rejects.toThrow('Server-only environment variable "DB_URL"');
+    });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { ConfigValidationError, mergeConfig, resolveConfig } from '../src/config';
+import { RytestackPlugin } from '../src/plugins';
+
+describe('mergeConfig', () => {
+    it('merges nested objects and keeps keys missing from the overlay', () => {
+        const merged = mergeConfig({ srcDir: './app', ssr: { enabled: true, streaming: true } }, { ssr: { streaming: false } });
+
+        expect(merged).toEqual({ srcDir: './app', ssr: { enabled: true, streaming: false } });
+    });
+
+    it('replaces arrays instead of concatenating them', () => {
+        const merged = mergeConfig({ i18n: { locales: ['en', 'de'] } }, { i18n: { locales: ['fr'] } });
+
+        expect(merged.i18n?.locales).toEqual(['fr']);
+    });
+
+    it('replaces class instances instead of merging into them', () => {
+        const schema = z.string().url();
+        const merged = mergeConfig({ env: { API_URL: z.string() } }, { env: { API_URL: schema } });
+
+        expect(merged.env?.API_URL).toBe(schema);
+    });
+
+    it('does not change its arguments', () => {
+        const base = { ssr: { enabled: true } };
+
+        mergeConfig(base, { ssr: { enabled: false } });
+
+        expect(base).toEqual({ ssr: { enabled: true } });
+    });
+});
+
+describe('resolveConfig', () => {
+    it('fills in defaults and the mode', async () => {
+        const config = await resolveConfig({ srcDir: './app' }, 'production');
+
+        expect(config.srcDir).toBe('./app');
+        expect(config.mode).toBe('production');
+        expect(config.ssr).toEqual({ enabled: true, streaming: true });
+    });
+
+    it('deeply merges the results of config hooks', async () => {
+        const plugin: RytestackPlugin = { name: 'no-streaming', config: () => ({ ssr: { streaming: false } }) };
+        const config = await resolveConfig({ ssr: { enabled: false }, plugins: [plugin] }, 'development');
+
+        expect(config.ssr).toEqual({ enabled: false, streaming: false });
+    });
+
+    it('validates the configuration returned by hooks', async () => {
+        const plugin: RytestackPlugin = { name: 'broken', config: () => ({ output: 'spa' as any }) };
+
+        await expect(resolveConfig({ plugins: [plugin] }, 'development')).rejects.toThrow(ConfigValidationError);
+    });
+});
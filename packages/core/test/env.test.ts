@@ -0,0 +1,128 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { build } from 'esbuild';
+import { afterEach, describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { EnvValidationError, LoadedEnv, envPlugin, parseEnvFile, validateEnv } from '../src/env';
+
+const dirs: string[] = [];
+
+/**
+ * Bundles a module with the env plugin
+ */
+async function bundle(source: string, target: 'client' | 'server', env: LoadedEnv): Promise<string> {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rytestack-env-'));
+    const entry = path.join(dir, 'entry.ts');
+
+    dirs.push(dir);
+    fs.writeFileSync(entry, source);
+
+    const result = await build({
+        entryPoints: [entry],
+        bundle: true,
+        write: false,
+        format: 'esm',
+        logLevel: 'silent',
+        plugins: [envPlugin({ target, env })]
+    });
+
+    return result.outputFiles[0].text;
+}
+
+afterEach(() => {
+    dirs.splice(0).forEach(dir => fs.rmSync(dir, { recursive: true, force: true }));
+});
+
+describe('parseEnvFile', () => {
+    it('reads plain values, skipping comments and export prefixes', () => {
+        expect(parseEnvFile([
+            '# Database',
+            'DATABASE_URL=postgres://localhost/app # local database',
+            'export PORT = 3000',
+            '',
+            'EMPTY='
+        ].join('\n'))).toEqual({ DATABASE_URL: 'postgres://localhost/app', PORT: '3000', EMPTY: '' });
+    });
+
+    it('strips quotes and keeps # inside them', () => {
+        expect(parseEnvFile(`A="x # y"\nB='x # y'\nC=\`x # y\``)).toEqual({ A: 'x # y', B: 'x # y', C: 'x # y' });
+    });
+
+    it('only expands escapes in double quotes', () => {
+        expect(parseEnvFile('A="line\\nnext \\"quoted\\" \\\\"\nB=\'line\\n\'')).toEqual({
+            A: 'line\nnext "quoted" \\',
+            B: 'line\\n'
+        });
+    });
+
+    it('handles Windows line endings', () => {
+        expect(parseEnvFile('A=1\r\nB="2"\r\n')).toEqual({ A: '1', B: '2' });
+    });
+});
+
+describe('validateEnv', () => {
+    it('returns parsed values of declared variables only', () => {
+        const values = validateEnv(
+            { PORT: z.coerce.number(), DEBUG: z.string().optional() },
+            { PORT: '3000', OTHER: 'x' }
+        );
+
+        expect(values).toEqual({ PORT: 3000, DEBUG: undefined });
+    });
+
+    it('reports every missing or invalid variable', () => {
+        const validate = () => validateEnv({ API_URL: z.string().url(), SECRET: z.string() }, { API_URL: 'nope' });
+
+        expect(validate).toThrow(EnvValidationError);
+
+        try {
+            validate();
+        } catch (error) {
+            expect((error as EnvValidationError).issues.map(issue => issue.path)).toEqual(['API_URL', 'SECRET']);
+        }
+    });
+});
+
+describe('envPlugin', () => {
+    const env: LoadedEnv = {
+        variables: { PUBLIC_API_URL: 'https://api.example.com', SECRET_KEY: 'hunter2' },
+        values: {}
+    };
+
+    it('inlines public variables into client bundles', async () => {
+        const code = await bundle("import { env } from 'virtual:rytestack/env';\nconsole.log(env.PUBLIC_API_URL);", 'client', env);
+
+        expect(code).toContain('https://api.example.com');
+        expect(code).not.toContain('hunter2');
+    });
+
+    it('fails client builds referencing server-only variables', async () => {
+        const build = bundle('console.log(process.env.SECRET_KEY);', 'client', env);
+
+        await expect(build).rejects.toThrow(/Server-only environment variable "SECRET_KEY"/);
+    });
+
+    it('fails client builds reading server-only variables through the env module', async () => {
+        const build = bundle("import { env as vars } from 'virtual:rytestack/env';\nconsole.log(vars['SECRET_KEY']);", 'client', env);
+
+        await expect(build).rejects.toThrow(/Server-only environment variable "SECRET_KEY"/);
+    });
+
+    it('ignores variables the build defines and objects unrelated to the environment', async () => {
+        const code = await bundle([
+            'const config = { env: { SECRET_KEY: 1 } };',
+            'const env = { SECRET_KEY: 2 };',
+            'console.log(process.env.NODE_ENV, config.env.SECRET_KEY, env.SECRET_KEY);'
+        ].join('\n'), 'client', { ...env, variables: { ...env.variables, NODE_ENV: 'production' } });
+
+        expect(code).toContain('SECRET_KEY');
+    });
+
+    it('reads process.env at runtime on the server', async () => {
+        const code = await bundle("import { env } from 'virtual:rytestack/env';\nconsole.log(env.SECRET_KEY, process.env.SECRET_KEY);", 'server', env);
+
+        expect(code).toContain('process?.env');
+        expect(code).not.toContain('hunter2');
+    });
+});
@@ -0,0 +1,82 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { RytestackConfig, resolveConfig } from '../src/config';
+import { RouteManifest, buildRouteManifest, generateManifestModule, getClientManifest } from '../src/manifest';
+import { RouteConflictError, matchRoutePath } from '../src/routing';
+
+const manifest: RouteManifest = {
+    version: 2,
+    routes: [{ path: '/', params: {}, component: 'pages/index.tsx', layouts: ['pages/_layout.tsx'], index: true, meta: {}, config: {} }],
+    apiRoutes: [{ path: '/api/users', params: {}, methods: ['GET'], handler: 'api/users.ts' }],
+    middleware: [{ path: '/', type: 'page', params: {}, file: 'pages/_middleware.ts' }],
+    errorPages: [{ path: '/', type: 'notFound', params: {}, file: 'pages/_404.tsx' }],
+    document: 'pages/_document.tsx'
+};
+
+const dirs: string[] = [];
+
+/**
+ * Builds the route manifest of a project with the given pages and config
+ */
+async function buildProject(pages: string[], config: RytestackConfig): Promise<RouteManifest> {
+    const srcDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rytestack-manifest-'));
+
+    dirs.push(srcDir);
+
+    for (const page of pages) {
+        fs.mkdirSync(path.dirname(path.join(srcDir, 'pages', page)), { recursive: true });
+        fs.writeFileSync(path.join(srcDir, 'pages', page), 'export default function Page() { return null; }\n');
+    }
+
+    return buildRouteManifest(path.join(srcDir, '.rytestack'), { srcDir, config });
+}
+
+afterEach(() => {
+    dirs.splice(0).forEach(dir => fs.rmSync(dir, { recursive: true, force: true }));
+});
+
+describe('generateManifestModule', () => {
+    it('imports every file of the manifest for the server', () => {
+        const source = generateManifestModule(manifest, '/app/src');
+
+        for (const file of ['index.tsx', '_layout.tsx', 'users.ts', '_middleware.ts', '_404.tsx', '_document.tsx']) {
+            expect(source).toContain(file);
+        }
+    });
+
+    it('leaves server-only files out of the client manifest', () => {
+        const source = generateManifestModule(getClientManifest(manifest), '/app/src');
+
+        for (const file of ['index.tsx', '_layout.tsx', '_404.tsx']) {
+            expect(source).toContain(file);
+        }
+
+        for (const file of ['users.ts', '_middleware.ts', '_document.tsx', '/api/users']) {
+            expect(source).not.toContain(file);
+        }
+    });
+});
+
+describe('buildRouteManifest', () => {
+    it('ranks the routes added by plugins with the discovered ones', async () => {
+        const config = await resolveConfig({
+            plugins: [{
+                name: 'localized-about',
+                routes: routes => [...routes, ...routes.filter(route => route.path === '/about').map(route => ({ ...route, path: '/fr/about' }))]
+            }]
+        }, 'development');
+        const manifest = await buildProject(['about.tsx', '[...slug].tsx'], config);
+
+        expect(manifest.routes.find(route => matchRoutePath(route.path, '/fr/about'))?.path).toBe('/fr/about');
+    });
+
+    it('rejects routes added by plugins that conflict with discovered ones', async () => {
+        const config = await resolveConfig({
+            plugins: [{ name: 'duplicate-about', routes: routes => [...routes, { ...routes[0] }] }]
+        }, 'development');
+
+        await expect(buildProject(['about.tsx'], config)).rejects.toThrow(RouteConflictError);
+    });
+});
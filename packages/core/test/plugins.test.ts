@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { resolveConfig } from '../src/config';
+import { RytestackPlugin, getPluginMiddleware } from '../src/plugins';
+
+describe('plugin hooks', () => {
+    it('runs hooks in enforce order, then in listed order', async () => {
+        const calls: string[] = [];
+        const plugin = (name: string, enforce?: 'pre' | 'post'): RytestackPlugin => ({
+            name,
+            enforce,
+            config: () => {
+                calls.push(`config:${name}`);
+            },
+            configResolved: () => {
+                calls.push(`configResolved:${name}`);
+            },
+            middleware: () => [{ name, handler: async (_c, next) => next() }]
+        });
+
+        const config = await resolveConfig({
+            plugins: [plugin('a', 'post'), plugin('b'), plugin('c', 'pre'), plugin('d')]
+        }, 'development');
+
+        expect(calls).toEqual([
+            'config:c', 'config:b', 'config:d', 'config:a',
+            'configResolved:c', 'configResolved:b', 'configResolved:d', 'configResolved:a'
+        ]);
+        expect(getPluginMiddleware(config).map(middleware => middleware.name)).toEqual(['c', 'b', 'd', 'a']);
+    });
+
+    it('passes the merged config of earlier plugins to later hooks', async () => {
+        const seen: unknown[] = [];
+        const config = await resolveConfig({
+            plugins: [
+                { name: 'first', config: () => ({ outDir: './build' }) },
+                { name: 'second', config: current => void seen.push(current.outDir) }
+            ]
+        }, 'development');
+
+        expect(seen).toEqual(['./build']);
+        expect(config.outDir).toBe('./build');
+    });
+});
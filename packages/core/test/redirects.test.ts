@@ -0,0 +1,65 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { generateVercelRoutes, matchRouteRule, writePlatformRoutingFiles } from '../src/redirects';
+
+const request = (cookie: string) => new Request('https://example.com/old', { headers: { Cookie: cookie } });
+
+const dirs: string[] = [];
+
+/**
+ * Creates a project folder, with a `vercel.json` file when given its contents
+ */
+function createProject(vercelConfig?: Record<string, unknown>): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rytestack-redirects-'));
+
+    dirs.push(dir);
+
+    if (vercelConfig) {
+        fs.writeFileSync(path.join(dir, 'vercel.json'), JSON.stringify(vercelConfig));
+    }
+
+    return dir;
+}
+
+const readVercelConfig = (dir: string) => JSON.parse(fs.readFileSync(path.join(dir, 'vercel.json'), 'utf-8'));
+
+afterEach(() => {
+    dirs.splice(0).forEach(dir => fs.rmSync(dir, { recursive: true, force: true }));
+});
+
+describe('matchRouteRule', () => {
+    it('matches decoded cookie values', () => {
+        const rule = { source: '/old', has: [{ type: 'cookie' as const, key: 'lang', value: 'en us' }] };
+
+        expect(matchRouteRule(rule, request('theme=dark; lang=en%20us'))).toEqual({});
+        expect(matchRouteRule(rule, request('lang=de'))).toBeNull();
+    });
+
+    it('keeps cookie values with malformed encodings as they are', () => {
+        const rule = { source: '/old', has: [{ type: 'cookie' as const, key: 'session', value: '%E0' }] };
+
+        expect(matchRouteRule(rule, request('session=%E0'))).toEqual({});
+    });
+});
+
+describe('writePlatformRoutingFiles', () => {
+    const rules = { redirects: [{ source: '/old', destination: '/new', permanent: false }] };
+
+    it('adds the routes to the vercel.json of the project, keeping its other keys', async () => {
+        const dir = createProject({ framework: null });
+        const result = await writePlatformRoutingFiles(dir, rules, 'vercel');
+
+        expect(result).toEqual({ files: [path.join(dir, 'vercel.json')], skipped: [] });
+        expect(readVercelConfig(dir)).toEqual({ framework: null, routes: generateVercelRoutes(rules) });
+    });
+
+    it('leaves a vercel.json Vercel would reject with routes as it is', async () => {
+        const dir = createProject({ cleanUrls: true });
+        const result = await writePlatformRoutingFiles(dir, rules, 'vercel');
+
+        expect(result).toEqual({ files: [], skipped: ['/old'] });
+        expect(readVercelConfig(dir)).toEqual({ cleanUrls: true });
+    });
+});
@@ -0,0 +1,218 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+    RouteConflictError,
+    compareRoutePaths,
+    compileRoutePath,
+    discoverErrorPages,
+    discoverMiddleware,
+    discoverRoutes,
+    filePathToRoutePath,
+    matchRoutePath,
+    rankRoutes,
+    toRouterPath
+} from '../src/routing';
+
+const route = (path: string, file = `${path}.tsx`) => ({ path, file });
+const rank = (paths: string[]) => rankRoutes(paths.map(path => route(path)), entry => entry.file).map(entry => entry.path);
+
+const projects: string[] = [];
+
+/**
+ * Creates a project with the given files in a temporary folder
+ */
+function createProject(files: string[], prefix = 'rytestack-'): string {
+    const srcDir = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+
+    for (const file of files) {
+        fs.mkdirSync(path.dirname(path.join(srcDir, file)), { recursive: true });
+        fs.writeFileSync(path.join(srcDir, file), 'export default function Page() { return null; }\n');
+    }
+
+    projects.push(srcDir);
+
+    return srcDir;
+}
+
+afterEach(() => {
+    projects.splice(0).forEach(srcDir => fs.rmSync(srcDir, { recursive: true, force: true }));
+});
+
+describe('filePathToRoutePath', () => {
+    it('converts dynamic, catch-all and grouped files', () => {
+        expect(filePathToRoutePath('index.tsx')).toEqual({ path: '/', params: {} });
+        expect(filePathToRoutePath('blog/[slug].tsx')).toEqual({ path: '/blog/:slug', params: { slug: 'single' } });
+        expect(filePathToRoutePath('docs/[...slug].tsx')).toEqual({ path: '/docs/:slug+', params: { slug: 'rest' } });
+        expect(filePathToRoutePath('[[...slug]].tsx')).toEqual({ path: '/:slug*', params: { slug: 'optionalRest' } });
+        expect(filePathToRoutePath('(marketing)/about.tsx')).toEqual({ path: '/about', params: {} });
+    });
+
+    it('rejects catch-all segments that are not last', () => {
+        expect(() => filePathToRoutePath('[...slug]/edit.tsx')).toThrow('must be the last segment');
+    });
+});
+
+describe('toRouterPath', () => {
+    it('keeps required catch-alls from matching their parent path', () => {
+        expect(toRouterPath('/docs/:slug+')).toBe('/docs/:slug/*');
+        expect(toRouterPath('/docs/:slug*')).toBe('/docs/*');
+        expect(toRouterPath('/blog/:slug')).toBe('/blog/:slug');
+    });
+});
+
+describe('compileRoutePath', () => {
+    it('captures parameters in order', () => {
+        const { regexp, names } = compileRoutePath('/:category/item-:id/:rest+');
+
+        expect(names).toEqual(['category', 'id', 'rest']);
+        expect(regexp.exec('/shoes/item-42/a/b')?.slice(1)).toEqual(['shoes', '42', 'a/b']);
+    });
+
+    it('escapes static segments', () => {
+        expect(compileRoutePath('/feed.xml').regexp.test('/feedxxml')).toBe(false);
+    });
+
+    it('caches compiled paths per match mode', () => {
+        expect(compileRoutePath('/blog/:slug')).toBe(compileRoutePath('/blog/:slug'));
+        expect(compileRoutePath('/blog/:slug', { prefix: true })).not.toBe(compileRoutePath('/blog/:slug'));
+    });
+});
+
+describe('matchRoutePath', () => {
+    it('matches static and dynamic paths', () => {
+        expect(matchRoutePath('/about', '/about')).toEqual({});
+        expect(matchRoutePath('/about', '/about/')).toEqual({});
+        expect(matchRoutePath('/blog/:slug', '/blog/hello%20world')).toEqual({ slug: 'hello world' });
+        expect(matchRoutePath('/blog/:slug', '/blog')).toBeNull();
+        expect(matchRoutePath('/blog/:slug', '/blog/a/b')).toBeNull();
+    });
+
+    it('requires at least one segment for catch-all parameters', () => {
+        expect(matchRoutePath('/docs/:slug+', '/docs/guide/intro')).toEqual({ slug: 'guide/intro' });
+        expect(matchRoutePath('/docs/:slug+', '/docs')).toBeNull();
+    });
+
+    it('matches the parent path for optional catch-all parameters', () => {
+        expect(matchRoutePath('/docs/:slug*', '/docs')).toEqual({});
+        expect(matchRoutePath('/docs/:slug*', '/docs/a/b')).toEqual({ slug: 'a/b' });
+    });
+
+    it('matches paths below the route path with prefix', () => {
+        expect(matchRoutePath('/admin', '/admin/users', { prefix: true })).toEqual({});
+        expect(matchRoutePath('/admin', '/administrator', { prefix: true })).toBeNull();
+        expect(matchRoutePath('/', '/anything', { prefix: true })).toEqual({});
+    });
+
+    it('keeps malformed encodings as they are', () => {
+        expect(matchRoutePath('/blog/:slug', '/blog/%E0')).toEqual({ slug: '%E0' });
+    });
+});
+
+describe('compareRoutePaths', () => {
+    it('orders static before dynamic before catch-all segments', () => {
+        expect(compareRoutePaths('/blog/new', '/blog/:slug')).toBeLessThan(0);
+        expect(compareRoutePaths('/blog/:slug', '/blog/:slug+')).toBeLessThan(0);
+        expect(compareRoutePaths('/blog/:slug+', '/blog/:slug*')).toBeLessThan(0);
+        expect(compareRoutePaths('/blog/post-:id', '/blog/:slug')).toBeLessThan(0);
+    });
+});
+
+describe('rankRoutes', () => {
+    it('sorts routes by specificity', () => {
+        expect(rank(['/:slug*', '/blog/:slug', '/docs/:path+', '/blog/new', '/about'])).toEqual([
+            '/about',
+            '/blog/new',
+            '/blog/:slug',
+            '/docs/:path+',
+            '/:slug*'
+        ]);
+    });
+
+    it('does not change the given array', () => {
+        const routes = [route('/:slug'), route('/about')];
+
+        rankRoutes(routes, entry => entry.file);
+
+        expect(routes.map(entry => entry.path)).toEqual(['/:slug', '/about']);
+    });
+
+    it('rejects duplicate routes', () => {
+        const routes = [route('/about', 'about.tsx'), route('/about', 'about/index.tsx')];
+
+        expect(() => rankRoutes(routes, entry => entry.file)).toThrow(RouteConflictError);
+
+        try {
+            rankRoutes(routes, entry => entry.file);
+        } catch (error) {
+            expect((error as RouteConflictError).files).toEqual(['about.tsx', 'about/index.tsx']);
+            expect((error as Error).message).toContain('Duplicate route "/about"');
+        }
+    });
+
+    it('rejects routes that only differ in parameter names', () => {
+        expect(() => rank(['/blog/:slug', '/blog/:id'])).toThrow(/Ambiguous routes/);
+        expect(() => rank(['/docs/:path+', '/docs/:slug*'])).toThrow(RouteConflictError);
+    });
+
+    it('rejects an optional catch-all next to its parent path', () => {
+        expect(() => rank(['/docs', '/docs/:slug*'])).toThrow(/both match "\/docs"/);
+        expect(() => rank(['/', '/:slug*'])).toThrow(RouteConflictError);
+        expect(rank(['/docs', '/docs/:slug+'])).toEqual(['/docs', '/docs/:slug+']);
+    });
+});
+
+describe('discoverRoutes', () => {
+    it('leaves out special files and folders', async () => {
+        const srcDir = createProject(['pages/index.tsx', 'pages/about.tsx', 'pages/_layout.tsx', 'pages/_components/Button.tsx']);
+        const routes = await discoverRoutes({ srcDir });
+
+        expect(routes.map(entry => entry.path)).toEqual(['/', '/about']);
+        expect(routes[0].layouts).toEqual([path.join(srcDir, 'pages/_layout.tsx')]);
+    });
+
+    it('finds routes in projects below underscore-prefixed folders', async () => {
+        const srcDir = createProject(['pages/index.tsx', 'pages/blog/[slug].tsx'], '_work-');
+        const routes = await discoverRoutes({ srcDir });
+
+        expect(routes.map(entry => entry.component)).toEqual([
+            path.join(srcDir, 'pages/index.tsx'),
+            path.join(srcDir, 'pages/blog/[slug].tsx')
+        ]);
+    });
+});
+
+describe('discoverMiddleware', () => {
+    it('scopes middleware in route groups to the routes of the group', async () => {
+        const srcDir = createProject([
+            'pages/_middleware.ts',
+            'pages/about.tsx',
+            'pages/blog/[id].tsx',
+            'pages/(admin)/_middleware.ts',
+            'pages/(admin)/dashboard.tsx',
+            'pages/(admin)/[slug].tsx'
+        ]);
+        const [root, admin] = await discoverMiddleware({ srcDir });
+
+        expect(root).toMatchObject({ path: '/', file: path.join(srcDir, 'pages/_middleware.ts') });
+        expect(root.routes).toBeUndefined();
+        expect(admin).toMatchObject({
+            path: '/',
+            file: path.join(srcDir, 'pages/(admin)/_middleware.ts'),
+            routes: ['/dashboard', '/:slug'],
+            precedingRoutes: ['/about', '/blog/:id']
+        });
+    });
+});
+
+describe('discoverErrorPages', () => {
+    it('scopes error pages in route groups to the routes of the group', async () => {
+        const srcDir = createProject(['pages/_404.tsx', 'pages/about.tsx', 'pages/(shop)/_error.tsx', 'pages/(shop)/cart.tsx']);
+        const [notFound, shopError] = await discoverErrorPages({ srcDir });
+
+        expect(notFound).toMatchObject({ path: '/', type: 'notFound' });
+        expect(notFound.routes).toBeUndefined();
+        expect(shopError).toMatchObject({ path: '/', type: 'error', routes: ['/cart'] });
+    });
+});
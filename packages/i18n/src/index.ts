@@ -6,4 +6,5 @@
 export * from './core';
 export * from './utils';
 export * from './types';
-export * from './loaders';
\ No newline at end of file
+export * from './loaders';
+export * from './plugin';
\ No newline at end of file
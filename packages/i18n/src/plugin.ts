@@ -0,0 +1,154 @@
+/**
+ * @fileoverview i18n plugin
+ *
+ * Adds locale-prefixed routes, detects the locale of requests and sets the
+ * language of rendered documents.
+ */
+import { RytestackPlugin } from '@rytestack/core';
+import { isRTL } from './utils';
+
+/**
+ * Default RTL locales
+ */
+const DEFAULT_RTL_LOCALES = ['ar', 'he', 'fa', 'ur', 'ps', 'dv', 'ha'];
+
+/**
+ * i18n plugin options
+ */
+export interface I18nPluginOptions {
+    /**
+     * Locale used when none is detected, overrides the `i18n` config
+     */
+    defaultLocale?: string;
+
+    /**
+     * Supported locales, overrides the `i18n` config
+     */
+    locales?: [string, ...string[]];
+
+    /**
+     * Whether to detect the locale from cookies and the Accept-Language header
+     */
+    autoDetect?: boolean;
+
+    /**
+     * Whether to add `/[locale]/...` copies of every page for the non-default locales
+     */
+    prefixRoutes?: boolean;
+
+    /**
+     * RTL locales
+     */
+    rtlLocales?: string[];
+}
+
+/**
+ * Gets the locale prefix of a URL path
+ */
+function getPathLocale(pathname: string, locales: string[]): string | undefined {
+    const segment = pathname.split('/')[1];
+    return locales.find(locale => locale.toLowerCase() === segment?.toLowerCase());
+}
+
+/**
+ * Gets the locale of a request from its cookies and Accept-Language header
+ */
+function getRequestLocale(request: Request, locales: string[]): string | undefined {
+    const cookie = (request.headers.get('Cookie') || '').match(/(?:^|;\s*)(?:locale|lang)=([^;]+)/);
+
+    if (cookie && locales.includes(cookie[1])) {
+        return cookie[1];
+    }
+
+    const languages = (request.headers.get('Accept-Language') || '')
+        .split(',')
+        .map(part => part.split(';')[0].trim())
+        .filter(Boolean);
+
+    for (const language of languages) {
+        const base = language.split('-')[0].toLowerCase();
+        const match = locales.find(locale => locale === language) || locales.find(locale => locale.toLowerCase() === base);
+
+        if (match) {
+            return match;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Creates the i18n plugin
+ *
+ * Enables the `i18n` config. Pages of non-default locales are served under
+ * a `/[locale]` prefix, with `meta.locale` set on their routes, and the
+ * detected locale is available to middleware as `c.rytestack.data.locale`.
+ *
+ * @param options Plugin options
+ * @returns Rytestack plugin
+ *
+ * @example
+ * ```typescript
+ * import { defineConfig } from '@rytestack/core';
+ * import { i18nPlugin } from '@rytestack/i18n';
+ *
+ * export default defineConfig({
+ *   plugins: [i18nPlugin({ defaultLocale: 'en', locales: ['en', 'fr', 'ar'] })]
+ * });
+ * ```
+ */
+export function i18nPlugin(options: I18nPluginOptions = {}): RytestackPlugin {
+    const { prefixRoutes = true, rtlLocales = DEFAULT_RTL_LOCALES, ...i18nConfig } = options;
+
+    return {
+        name: 'rytestack:i18n',
+        config() {
+            return { i18n: { ...i18nConfig, enabled: true } };
+        },
+        routes(routes, { config }) {
+            const { defaultLocale, locales } = config.i18n;
+
+            if (!prefixRoutes) {
+                return;
+            }
+
+            const localizedRoutes = locales
+                .filter(locale => locale !== defaultLocale)
+                .flatMap(locale => routes.map(route => ({
+                    ...route,
+                    path: `/${locale}${route.path === '/' ? '' : route.path}`,
+                    meta: { ...route.meta, locale }
+                })));
+
+            return [...routes, ...localizedRoutes];
+        },
+        middleware({ config }) {
+            const { defaultLocale, locales, autoDetect } = config.i18n;
+
+            return [{
+                name: 'i18n',
+                handler: async (c, next) => {
+                    const request: Request = c.req.raw;
+                    const locale = getPathLocale(new URL(request.url).pathname, locales)
+                        || (autoDetect ? getRequestLocale(request, locales) : undefined)
+                        || defaultLocale;
+
+                    if (c.rytestack) {
+                        c.rytestack.data.locale = locale;
+                    }
+
+                    await next();
+                }
+            }];
+        },
+        transformHtml(html, { config, path }) {
+            const locale = getPathLocale(path, config.i18n.locales) || config.i18n.defaultLocale;
+            const dir = isRTL(locale, rtlLocales) ? 'rtl' : 'ltr';
+
+            return html.replace(/<html\b([^>]*)>/i, (_, attributes: string) => {
+                const rest = attributes.replace(/\s(?:lang|dir)=("[^"]*"|'[^']*'|\S+)/gi, '');
+                return `<html lang="${locale}" dir="${dir}"${rest}>`;
+            });
+        }
+    };
+}
@@ -5,4 +5,5 @@
  */
 export * from './manifest';
 export * from './serviceWorker';
-export * from './utils';
\ No newline at end of file
+export * from './utils';
+export * from './plugin';
\ No newline at end of file
@@ -0,0 +1,80 @@
+/**
+ * @fileoverview PWA plugin
+ *
+ * Serves the web app manifest and service worker, and links the manifest
+ * from rendered documents.
+ */
+import { RytestackConfig, RytestackPlugin } from '@rytestack/core';
+import { WebAppManifest, createManifest, generateManifestHtml } from './manifest';
+import { generateServiceWorker } from './serviceWorker';
+
+/**
+ * PWA plugin options
+ */
+export interface PwaPluginOptions {
+    /**
+     * Web app manifest fields, merged over the `pwa.manifest` config
+     */
+    manifest?: Partial<WebAppManifest>;
+
+    /**
+     * Service worker options
+     */
+    serviceWorker?: Parameters<typeof generateServiceWorker>[0];
+}
+
+/**
+ * Creates the PWA plugin
+ *
+ * Enables the `pwa` config and serves `/manifest.webmanifest` and `/sw.js`.
+ *
+ * @param options Plugin options
+ * @returns Rytestack plugin
+ *
+ * @example
+ * ```typescript
+ * import { defineConfig } from '@rytestack/core';
+ * import { pwaPlugin } from '@rytestack/pwa';
+ *
+ * export default defineConfig({
+ *   plugins: [pwaPlugin({ manifest: { name: 'My App', theme_color: '#4285f4' } })]
+ * });
+ * ```
+ */
+export function pwaPlugin(options: PwaPluginOptions = {}): RytestackPlugin {
+    const getManifest = (config: RytestackConfig) => createManifest({ ...config.pwa.manifest, ...options.manifest });
+
+    return {
+        name: 'rytestack:pwa',
+        config() {
+            return { pwa: { enabled: true } };
+        },
+        middleware({ config }) {
+            const manifest = getManifest(config);
+            const serviceWorker = generateServiceWorker(options.serviceWorker);
+
+            return [{
+                name: 'pwa',
+                handler: async (c, next) => {
+                    switch (c.req.path) {
+                        case '/manifest.webmanifest':
+                            c.res = new Response(JSON.stringify(manifest), {
+                                headers: { 'Content-Type': 'application/manifest+json' }
+                            });
+                            return;
+                        case '/sw.js':
+                            c.res = new Response(serviceWorker, {
+                                headers: { 'Content-Type': 'text/javascript', 'Service-Worker-Allowed': '/' }
+                            });
+                            return;
+                        default:
+                            await next();
+                    }
+                }
+            }];
+        },
+        transformHtml(html, { config }) {
+            return html.replace(/<\/head>/i, `${generateManifestHtml(getManifest(config))}</head>`);
+        }
+    };
+}
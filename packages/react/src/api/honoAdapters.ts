@@ -26,10 +26,17 @@ export function createHonoAdapter(handler: RyteApiHandler) {
             method: c.req.method
         };
 
+        // Response produced by the handler, if any
+        let response: Response | undefined;
+
         // Create response object
         const res: RyteApiResponse = {
-            json: (data: any) => c.json(data),
-            text: (text: string) => c.text(text),
+            json: (data: any) => {
+                response = c.json(data);
+            },
+            text: (text: string) => {
+                response = c.text(text);
+            },
             status: (code: StatusCode) => {
                 c.status(code);
                 return res;
@@ -38,15 +45,19 @@ export function createHonoAdapter(handler: RyteApiHandler) {
                 c.header(name, value);
                 return res;
             },
-            stream: (readable: ReadableStream) => c.body(readable),
-            redirect: (url: string, status?: StatusCode) => c.redirect(url, status)
+            stream: (readable: ReadableStream) => {
+                response = c.body(readable);
+            },
+            redirect: (url: string, status?: StatusCode) => {
+                response = c.redirect(url, status);
+            }
         };
 
         // Call the handler
         await handler(req, res);
 
-        // Return the Hono context
-        return c;
+        // Handlers that don't send anything respond with an empty body
+        return response ?? c.body(null);
     };
 }
 
@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Client entry utility
+ *
+ * Hydrates the server-rendered pages of a route manifest in the browser.
+ */
+import React from 'react';
+import { createRoot, hydrateRoot } from 'react-dom/client';
+import { RouteObject, useRoutes } from 'react-router-dom';
+import { QueryClient } from '@tanstack/react-query';
+import { RouteManifest, matchRoutePath } from '@rytestack/core';
+import { createRouter } from '../router/createRouter';
+import { loadRouteModules } from '../router/loadRouteModules';
+import { RouteChunksProvider } from '../router/prefetch';
+import { RyteProvider } from '../components/RyteProvider';
+import { Hydrate, getHydrationData } from '../components/Hydrate';
+
+/**
+ * Options for hydrating an application
+ */
+export interface HydrateAppOptions {
+    /**
+     * Route manifest
+     */
+    manifest: RouteManifest;
+
+    /**
+     * Lazy module loaders keyed by manifest path (the `modules` export of the virtual manifest module)
+     */
+    modules: Record<string, () => Promise<any>>;
+
+    /**
+     * ID of the element the application is rendered into
+     */
+    rootId?: string;
+}
+
+/**
+ * Renders the routes of the application
+ */
+function AppRoutes({ routes }: { routes: RouteObject[] }) {
+    return useRoutes(routes);
+}
+
+/**
+ * Hydrates the server-rendered application
+ *
+ * Falls back to a client render when the server sent an empty document
+ * (e.g. with SSR disabled). Only the page of the current URL is loaded
+ * before hydrating, the others are loaded when navigated to.
+ *
+ * @param options Hydration options
+ *
+ * @example
+ * ```typescript
+ * import { manifest, modules } from 'virtual:rytestack/manifest';
+ *
+ * hydrateApp({ manifest, modules });
+ * ```
+ */
+export async function hydrateApp({ manifest, modules, rootId = 'root' }: HydrateAppOptions): Promise<void> {
+    const container = document.getElementById(rootId);
+
+    if (!container) {
+        throw new Error(`Root element not found: #${rootId}`);
+    }
+
+    // Matched like the server does, so the hydrated page is the one it rendered
+    const current = manifest.routes.find(route => matchRoutePath(route.path, window.location.pathname));
+    const routes = createRouter({ manifest, modules, ...await loadRouteModules(manifest, modules, current ? [current] : []) });
+    const data = getHydrationData();
+
+    const app = (
+        <RyteProvider queryClient={new QueryClient()}>
+            <Hydrate state={data.dehydratedState}>
+                <RouteChunksProvider manifest={manifest} modules={modules}>
+                    <AppRoutes routes={routes} />
+                </RouteChunksProvider>
+            </Hydrate>
+        </RyteProvider>
+    );
+
+    if (container.hasChildNodes()) {
+        hydrateRoot(container, app);
+    } else {
+        createRoot(container).render(app);
+    }
+}
@@ -0,0 +1,6 @@
+/**
+ * @fileoverview Client utilities for Rytestack
+ *
+ * This file exports utilities for the browser entry.
+ */
+export * from './hydrateApp';
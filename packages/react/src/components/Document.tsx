@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Document components
+ *
+ * Components for customizing the HTML document around every page in
+ * `pages/_document.tsx`.
+ */
+import React from 'react';
+
+/**
+ * Parts of the document filled in by the server for every page
+ */
+export type DocumentSlot = 'head' | 'main' | 'scripts';
+
+/**
+ * Gets the markup a document slot renders to, replaced by its content on the server
+ *
+ * @param slot Document slot
+ * @returns Placeholder markup
+ */
+export function getDocumentSlotMarkup(slot: DocumentSlot): string {
+    return `<template data-rytestack-slot="${slot}"></template>`;
+}
+
+/**
+ * Placeholder for a document slot
+ */
+function Slot({ name }: { name: DocumentSlot }) {
+    return <template data-rytestack-slot={name} />;
+}
+
+/**
+ * Root element of the document
+ *
+ * @example
+ * ```tsx
+ * // pages/_document.tsx
+ * import { Html, Head, Main, Scripts } from '@rytestack/react';
+ *
+ * export default function Document() {
+ *     return (
+ *         <Html lang="en">
+ *             <Head>
+ *                 <link rel="icon" href="/favicon.ico" />
+ *             </Head>
+ *             <body className="antialiased">
+ *                 <Main />
+ *                 <Scripts />
+ *             </body>
+ *         </Html>
+ *     );
+ * }
+ * ```
+ */
+export function Html({ children, ...props }: React.HtmlHTMLAttributes<HTMLHtmlElement>) {
+    return <html {...props}>{children}</html>;
+}
+
+/**
+ * Head of the document
+ *
+ * Renders the charset and viewport meta tags, the head tags of the page
+ * (see `SEO`), its stylesheets and module preloads, followed by the children.
+ */
+export function Head({ children }: { children?: React.ReactNode }) {
+    return (
+        <head>
+            <Slot name="head" />
+            {children}
+        </head>
+    );
+}
+
+/**
+ * Element the page is rendered into
+ */
+export function Main() {
+    return <Slot name="main" />;
+}
+
+/**
+ * Hydration data and client scripts of the page, must come after `Main`
+ */
+export function Scripts() {
+    return <Slot name="scripts" />;
+}
+
+/**
+ * Document used when the project has no `pages/_document.tsx`
+ */
+export function DefaultDocument() {
+    return (
+        <Html>
+            <Head />
+            <body>
+                <Main />
+                <Scripts />
+            </body>
+        </Html>
+    );
+}
+
@@ -16,12 +16,42 @@ export interface ErrorBoundaryProps {
      */
     onError?: (error: Error, errorInfo: ErrorInfo) => void;
 
+    /**
+     * Error to show from the start, e.g. one thrown during server rendering
+     */
+    error?: Error;
+
+    /**
+     * Callback fired when the error is reset
+     */
+    onReset?: () => void;
+
     /**
      * Children to render
      */
     children: ReactNode;
 }
 
+/**
+ * Fallback shown by `ErrorBoundary` when it has none
+ */
+export function DefaultErrorFallback({ error, reset }: { error: Error | null; reset: () => void }) {
+    return (
+        <div className="error-boundary p-4 bg-red-50 border border-red-200 rounded-md">
+            <h2 className="text-red-800 text-lg font-medium">Something went wrong</h2>
+            <p className="text-red-600 mt-1">
+                {error?.message || 'An error occurred during rendering'}
+            </p>
+            <button
+                className="mt-2 px-3 py-1 bg-red-100 text-red-800 rounded hover:bg-red-200"
+                onClick={reset}
+            >
+                Try again
+            </button>
+        </div>
+    );
+}
+
 interface ErrorBoundaryState {
     hasError: boolean;
     error: Error | null;
@@ -40,7 +70,7 @@ interface ErrorBoundaryState {
 export class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
     constructor(props: ErrorBoundaryProps) {
         super(props);
-        this.state = { hasError: false, error: null };
+        this.state = { hasError: Boolean(props.error), error: props.error || null };
         this.resetError = this.resetError.bind(this);
     }
 
@@ -55,6 +85,7 @@ export class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundarySt
     }
 
     resetError(): void {
+        this.props.onReset?.();
         this.setState({ hasError: false, error: null });
     }
 
@@ -69,20 +100,7 @@ export class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundarySt
                 return fallback;
             }
 
-            return (
-                <div className="error-boundary p-4 bg-red-50 border border-red-200 rounded-md">
-                    <h2 className="text-red-800 text-lg font-medium">Something went wrong</h2>
-                    <p className="text-red-600 mt-1">
-                        {this.state.error?.message || 'An error occurred during rendering'}
-                    </p>
-                    <button
-                        className="mt-2 px-3 py-1 bg-red-100 text-red-800 rounded hover:bg-red-200"
-                        onClick={this.resetError}
-                    >
-                        Try again
-                    </button>
-                </div>
-            );
+            return <DefaultErrorFallback error={this.state.error} reset={this.resetError} />;
         }
 
         return this.props.children;
@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Form component
+ *
+ * A form posting to the action of a page, submitted without a full page
+ * load once the app has hydrated.
+ */
+import React, { useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { CSRF_FIELD, getActionDataQueryKey, submitAction, useCsrfToken } from '../data';
+
+export interface FormProps extends Omit<React.FormHTMLAttributes<HTMLFormElement>, 'action' | 'method'> {
+    /**
+     * Page whose action receives the form, the current page by default
+     */
+    action?: string;
+
+    /**
+     * Form children
+     */
+    children?: React.ReactNode;
+}
+
+/**
+ * Form posting to the `action` of a page
+ *
+ * Without JavaScript the browser posts the form and the server renders the
+ * page again with the action result. Once hydrated, the form is submitted
+ * with fetch: the result is available through `useActionData()` and the
+ * data of the current page is loaded again. Includes the CSRF token of the
+ * session when CSRF protection is enabled.
+ *
+ * Pages rendered by incremental static regeneration share their HTML
+ * between visitors, the token of the session is added to each response.
+ *
+ * @example
+ * ```tsx
+ * <Form>
+ *     <input name="title" />
+ *     <button type="submit">Save</button>
+ * </Form>
+ * ```
+ */
+export function Form({ action, children, onSubmit, ...props }: FormProps) {
+    const location = useLocation();
+    const navigate = useNavigate();
+    const queryClient = useQueryClient();
+    const csrfToken = useCsrfToken();
+    const [submitting, setSubmitting] = useState(false);
+    const [, setError] = useState();
+
+    const path = action ?? `${location.pathname}${location.search}`;
+
+    const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+        onSubmit?.(event);
+
+        if (event.defaultPrevented) {
+            return;
+        }
+
+        event.preventDefault();
+
+        const formData = new FormData(event.currentTarget);
+        const submitter = (event.nativeEvent as SubmitEvent).submitter as HTMLButtonElement | HTMLInputElement | null;
+
+        if (submitter?.name) {
+            formData.append(submitter.name, submitter.value);
+        }
+
+        setSubmitting(true);
+
+        try {
+            const result = await submitAction(path, formData);
+
+            if ('redirect' in result) {
+                if (/^([a-z][a-z\d+.-]*:)?\/\//i.test(result.redirect)) {
+                    window.location.assign(result.redirect);
+                } else {
+                    navigate(result.redirect);
+                }
+
+                return;
+            }
+
+            queryClient.setQueryData(getActionDataQueryKey(path), result.actionData);
+            await queryClient.invalidateQueries({ queryKey: ['rytestack', 'initial-data'] });
+        } catch (error) {
+            // Thrown during rendering to reach the nearest error boundary
+            setError(() => { throw error; });
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <form method="post" action={path} onSubmit={handleSubmit} aria-busy={submitting || undefined} {...props}>
+            {csrfToken && <input type="hidden" name={CSRF_FIELD} value={csrfToken} />}
+            {children}
+        </form>
+    );
+}
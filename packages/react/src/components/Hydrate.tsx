@@ -6,6 +6,37 @@
 import React from 'react';
 import { Hydrate as QueryHydrate, type DehydratedState } from '@tanstack/react-query';
 
+/**
+ * ID of the script element carrying the server-rendered state
+ */
+export const HYDRATION_DATA_ID = '__RYTESTACK_DATA__';
+
+/**
+ * State serialized by the server for hydration
+ */
+export interface HydrationData {
+    /**
+     * Dehydrated state from TanStack Query
+     */
+    dehydratedState?: DehydratedState;
+
+    /**
+     * Initial page props
+     */
+    pageProps?: any;
+}
+
+/**
+ * Reads the state serialized by the server
+ *
+ * @returns Hydration data, empty when the page wasn't server-rendered
+ */
+export function getHydrationData(): HydrationData {
+    const element = typeof document !== 'undefined' ? document.getElementById(HYDRATION_DATA_ID) : null;
+
+    return element?.textContent ? JSON.parse(element.textContent) : {};
+}
+
 export interface HydrateProps {
     /**
      * Dehydrated state from TanStack Query
@@ -3,14 +3,47 @@
  *
  * A wrapper around React Router's Link component with additional features.
  */
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
 import { Link as RouterLink, LinkProps as RouterLinkProps } from 'react-router-dom';
+import { href, RoutePath, RouteParamsOf } from '@rytestack/core';
+import { usePrefetch } from '../router/prefetch';
+
+/**
+ * When a link prefetches its page
+ *
+ * - `hover`: when hovered, focused or touched
+ * - `viewport`: when scrolled into view
+ * - `render`: as soon as it renders
+ */
+export type LinkPrefetch = 'hover' | 'viewport' | 'render' | false;
+
+/**
+ * Route parameters prop, required when the route has required params
+ */
+type LinkParamsProps<P extends RoutePath> = {} extends RouteParamsOf<P>
+    ? { params?: RouteParamsOf<P> }
+    : { params: RouteParamsOf<P> };
+
+export type LinkProps<P extends RoutePath = RoutePath> = Omit<RouterLinkProps, 'to'> & LinkParamsProps<P> & {
+    /**
+     * Path pattern of a known route (e.g., '/blog/:slug')
+     */
+    to: P;
+
+    /**
+     * Query string to append (e.g., '?page=2')
+     */
+    search?: string;
+
+    /**
+     * Hash to append (e.g., '#comments')
+     */
+    hash?: string;
 
-export interface LinkProps extends RouterLinkProps {
     /**
-     * Whether to prefetch the linked page
+     * When to prefetch the chunk and the data of the linked page, never by default
      */
-    prefetch?: boolean;
+    prefetch?: LinkPrefetch;
 
     /**
      * Additional CSS classes
@@ -21,22 +54,74 @@ export interface LinkProps extends RouterLinkProps {
      * Link children
      */
     children: React.ReactNode;
-}
+};
 
 /**
- * Enhanced Link component with prefetching capabilities
+ * Enhanced Link component with type-safe routes and prefetching capabilities
+ *
+ * Prefetching is skipped when the user enabled data saving, see `usePrefetch`.
  *
  * @example
  * ```tsx
- * <Link to="/about" prefetch>About</Link>
+ * <Link to="/about" prefetch="hover">About</Link>
+ * <Link to="/blog/:slug" params={{ slug: post.slug }}>{post.title}</Link>
  * ```
  */
-export function Link({ to, prefetch = false, className = '', children, ...rest }: LinkProps) {
-    // TODO: Implement prefetching logic
+export function Link<P extends RoutePath>(props: LinkProps<P>) {
+    const { to, params, search = '', hash = '', prefetch = false, className = '', children, ...rest } = props as LinkProps<P> & { params?: RouteParamsOf<P> };
+    const prefetchPage = usePrefetch();
+    const ref = useRef<HTMLAnchorElement>(null);
+
+    // Only route patterns with parameters need to be filled in
+    const pathname = params || to.includes(':')
+        ? (href as (routePath: string, params?: object) => string)(to, params)
+        : to;
+    const path = `${pathname}${search}`;
+
+    useEffect(() => {
+        if (prefetch === 'render') {
+            prefetchPage(path);
+            return;
+        }
+
+        const element = ref.current;
+
+        if (prefetch !== 'viewport' || !element || typeof IntersectionObserver === 'undefined') {
+            return;
+        }
+
+        const observer = new IntersectionObserver(entries => {
+            if (entries.some(entry => entry.isIntersecting)) {
+                observer.disconnect();
+                prefetchPage(path);
+            }
+        });
+
+        observer.observe(element);
+
+        return () => observer.disconnect();
+    }, [prefetch, prefetchPage, path]);
+
+    // Hovering, focusing and touching all signal the intent to navigate
+    const onIntent = <E extends React.SyntheticEvent>(handler?: (event: E) => void) => (event: E) => {
+        handler?.(event);
+
+        if (prefetch === 'hover') {
+            prefetchPage(path);
+        }
+    };
 
     return (
-        <RouterLink to={to} className={className} {...rest}>
+        <RouterLink
+            ref={ref}
+            to={{ pathname, search, hash }}
+            className={className}
+            {...rest}
+            onMouseEnter={onIntent(rest.onMouseEnter)}
+            onFocus={onIntent(rest.onFocus)}
+            onTouchStart={onIntent(rest.onTouchStart)}
+        >
             {children}
         </RouterLink>
     );
-}
\ No newline at end of file
+}
@@ -56,7 +56,8 @@ export function RyteProvider({
         <HelmetProvider>
             <QueryClientProvider client={queryClient}>
                 {routerType === 'browser' ? (
-                    <BrowserRouter>{children}</BrowserRouter>
+                    // Navigations run in transitions, so the current page stays while the next one loads its data
+                    <BrowserRouter future={{ v7_startTransition: true }}>{children}</BrowserRouter>
                 ) : (
                     <RouterProvider router={router} />
                 )}
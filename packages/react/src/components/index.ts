@@ -4,6 +4,8 @@
  * This file exports all React components provided by Rytestack.
  */
 export * from './Link';
+export * from './Form';
 export * from './RyteProvider';
 export * from './ErrorBoundary';
-export * from './Hydrate';
\ No newline at end of file
+export * from './Hydrate';
+export * from './Document';
\ No newline at end of file
@@ -0,0 +1,147 @@
+/**
+ * @fileoverview Page actions
+ *
+ * Types and hooks for the `action` handler of a page, which receives the
+ * forms posted to the page.
+ */
+import { useQuery } from '@tanstack/react-query';
+import { useLocation } from 'react-router-dom';
+import { INITIAL_DATA_PARAM, InitialDataContext } from './initialData';
+
+/**
+ * Form field carrying the CSRF token, read by the CSRF protection middleware of `@rytestack/security`
+ */
+export const CSRF_FIELD = '_csrf';
+
+/**
+ * Context passed to a page action
+ */
+export interface ActionContext extends InitialDataContext {
+    /**
+     * Posted form data
+     */
+    formData: FormData;
+}
+
+/**
+ * Handles the forms posted to a page on the server
+ *
+ * The returned value (e.g. validation errors) is available to the page
+ * through `useActionData()`. Throw `redirect()` to navigate elsewhere after
+ * a successful submission.
+ */
+export type PageAction<T = any> = (context: ActionContext) => T | Promise<T>;
+
+/**
+ * Result of a page action, as sent to `<Form>`
+ */
+export type ActionResult =
+    | { actionData: any }
+    | { redirect: string };
+
+/**
+ * Gets the query key of the last action result of a page
+ *
+ * @param path URL path and search of the page
+ * @returns Query key
+ */
+export function getActionDataQueryKey(path: string): unknown[] {
+    return ['rytestack', 'action-data', path];
+}
+
+/**
+ * Query key of the CSRF token of the current session
+ */
+export const CSRF_TOKEN_QUERY_KEY = ['rytestack', 'csrf-token'];
+
+/**
+ * Submits a form to the action of a page
+ *
+ * @param path URL path and search of the page
+ * @param formData Form data to post
+ * @returns Action result
+ * @throws Error if the action failed
+ */
+export async function submitAction(path: string, formData: FormData): Promise<ActionResult> {
+    const url = new URL(path, window.location.origin);
+    url.searchParams.set(INITIAL_DATA_PARAM, '1');
+
+    const response = await fetch(url, { method: 'POST', body: formData, headers: { Accept: 'application/json' } });
+
+    // Middleware redirected the request (e.g. to a login page)
+    if (response.redirected) {
+        const location = new URL(response.url);
+        location.searchParams.delete(INITIAL_DATA_PARAM);
+
+        return { redirect: location.origin === window.location.origin ? `${location.pathname}${location.search}` : location.href };
+    }
+
+    const result = response.headers.get('Content-Type')?.includes('application/json')
+        ? await response.json()
+        : {};
+
+    if (!response.ok) {
+        throw new Error(result.error || `Submitting to ${path} failed with status ${response.status}`);
+    }
+
+    return result;
+}
+
+/**
+ * Reads a value the server put in the query cache, never fetched on the client
+ */
+function useServerValue<T>(queryKey: unknown[], cacheTime?: number): T | undefined {
+    const { data } = useQuery<T>({ queryKey, enabled: false, staleTime: Infinity, cacheTime });
+
+    return data;
+}
+
+/**
+ * Gets the result of the last action submitted to the current page
+ *
+ * Cleared once no component on the page reads it anymore, e.g. after
+ * navigating away.
+ *
+ * @returns Value returned by the page action, undefined before a submission
+ *
+ * @example
+ * ```tsx
+ * export default function Signup() {
+ *     const result = useActionData<{ errors?: Record<string, string> }>();
+ *
+ *     return (
+ *         <Form>
+ *             <input name="email" />
+ *             {result?.errors?.email && <p>{result.errors.email}</p>}
+ *             <button type="submit">Sign up</button>
+ *         </Form>
+ *     );
+ * }
+ *
+ * Signup.action = async ({ formData }) => {
+ *     const email = String(formData.get('email'));
+ *
+ *     if (!email.includes('@')) {
+ *         return { errors: { email: 'Enter a valid email address' } };
+ *     }
+ *
+ *     await createUser(email);
+ *     redirect('/welcome');
+ * };
+ * ```
+ */
+export function useActionData<T = any>(): T | undefined {
+    const { pathname, search } = useLocation();
+
+    return useServerValue<T>(getActionDataQueryKey(`${pathname}${search}`), 0);
+}
+
+/**
+ * Gets the CSRF token of the current session, put in the page by the
+ * server when CSRF protection is enabled
+ *
+ * @returns CSRF token, or undefined
+ */
+export function useCsrfToken(): string | undefined {
+    return useServerValue<string>(CSRF_TOKEN_QUERY_KEY);
+}
@@ -0,0 +1,78 @@
+/**
+ * @fileoverview Server errors
+ *
+ * Serializes errors thrown while rendering a page on the server, so the
+ * error page shows them again once the client hydrates.
+ */
+import { NotFoundError } from './responses';
+
+/**
+ * Error as sent to the client
+ */
+export interface SerializedError {
+    /**
+     * Error name
+     */
+    name: string;
+
+    /**
+     * Error message, generic in production
+     */
+    message: string;
+
+    /**
+     * Stack trace, only sent in development
+     */
+    stack?: string;
+}
+
+/**
+ * Gets the query key of the error a page threw during server rendering
+ *
+ * @param path URL path and search of the page
+ * @returns Query key
+ */
+export function getRenderErrorQueryKey(path: string): unknown[] {
+    return ['rytestack', 'render-error', path];
+}
+
+/**
+ * Serializes an error for the client
+ *
+ * `notFound()` keeps its name in production, the client renders the not
+ * found page for it.
+ *
+ * @param error Thrown error
+ * @param production Whether to leave out the details, which may expose server internals
+ * @returns Serialized error
+ */
+export function serializeError(error: unknown, production: boolean): SerializedError {
+    if (error instanceof NotFoundError) {
+        return { name: error.name, message: error.message };
+    }
+
+    if (production) {
+        return { name: 'Error', message: 'Internal Server Error' };
+    }
+
+    return error instanceof Error
+        ? { name: error.name, message: error.message, stack: error.stack }
+        : { name: 'Error', message: String(error) };
+}
+
+/**
+ * Recreates an error serialized by the server
+ *
+ * @param serialized Serialized error
+ * @returns Error
+ */
+export function deserializeError(serialized: SerializedError): Error {
+    const error = new Error(serialized.message);
+    error.name = serialized.name;
+
+    if (serialized.stack) {
+        error.stack = serialized.stack;
+    }
+
+    return error;
+}
@@ -0,0 +1,9 @@
+/**
+ * @fileoverview Page data utilities for Rytestack
+ *
+ * This file exports utilities for loading page data.
+ */
+export * from './initialData';
+export * from './actions';
+export * from './errors';
+export * from './responses';
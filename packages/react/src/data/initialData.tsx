@@ -0,0 +1,221 @@
+/**
+ * @fileoverview Page data loading
+ *
+ * Runs the `getInitialData` loader of a page on the server, and fetches
+ * its result from the server during client-side navigation.
+ */
+import React, { useEffect } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { QueryClient, useQuery } from '@tanstack/react-query';
+import { NotFoundError, PageResponse, RedirectError } from './responses';
+
+/**
+ * Query parameter requesting the loader result of a page as JSON instead of its HTML
+ */
+export const INITIAL_DATA_PARAM = '_data';
+
+/**
+ * Time loader results stay fresh, navigations within it use the cached
+ * result without fetching again
+ */
+const INITIAL_DATA_STALE_TIME = 30_000;
+
+/**
+ * Context passed to a page loader
+ */
+export interface InitialDataContext {
+    /**
+     * Route parameters of the page
+     */
+    params: Record<string, string>;
+
+    /**
+     * Query parameters of the URL
+     */
+    query: Record<string, string>;
+
+    /**
+     * Page request
+     */
+    request: Request;
+
+    /**
+     * Response of the page, or of the JSON request during client-side navigation
+     */
+    response: PageResponse;
+}
+
+/**
+ * Loads the data of a page on the server, passed to the page as `initialData`
+ *
+ * Runs before server rendering and, during client-side navigation, behind a
+ * JSON request to the page URL. Throw `redirect()` or `notFound()` to
+ * render something else than the page.
+ */
+export type GetInitialData<T = any> = (context: InitialDataContext) => T | Promise<T>;
+
+/**
+ * Result of a page loader, as cached on the client
+ */
+export type InitialDataResult =
+    | { data: any }
+    | { redirect: string }
+    | { notFound: true };
+
+/**
+ * Gets the query key of the loader result of a page
+ *
+ * @param path URL path and search of the page
+ * @returns Query key
+ */
+export function getInitialDataQueryKey(path: string): unknown[] {
+    return ['rytestack', 'initial-data', path];
+}
+
+/**
+ * Runs a page loader
+ *
+ * @param getInitialData Loader of the page
+ * @param context Loader context
+ * @returns Loader result, `redirect()` is only caught when `catchRedirect` is set
+ * @throws Errors thrown by the loader
+ */
+export async function runInitialDataLoader(
+    getInitialData: GetInitialData,
+    context: InitialDataContext,
+    { catchRedirect = false }: { catchRedirect?: boolean } = {}
+): Promise<InitialDataResult> {
+    try {
+        return { data: await getInitialData(context) };
+    } catch (error) {
+        if (error instanceof NotFoundError) {
+            return { notFound: true };
+        }
+
+        if (catchRedirect && error instanceof RedirectError) {
+            return { redirect: error.location };
+        }
+
+        throw error;
+    }
+}
+
+/**
+ * Fetches the loader result of a page from the server
+ *
+ * @param path URL path and search of the page
+ * @returns Loader result
+ * @throws Error if the loader failed
+ */
+export async function fetchInitialData(path: string): Promise<InitialDataResult> {
+    const url = new URL(path, window.location.origin);
+    url.searchParams.set(INITIAL_DATA_PARAM, '1');
+
+    const response = await fetch(url, { headers: { Accept: 'application/json' } });
+
+    // Middleware redirected the request (e.g. to a login page)
+    if (response.redirected) {
+        const location = new URL(response.url);
+        location.searchParams.delete(INITIAL_DATA_PARAM);
+
+        return { redirect: location.origin === window.location.origin ? `${location.pathname}${location.search}` : location.href };
+    }
+
+    if (!response.headers.get('Content-Type')?.includes('application/json')) {
+        // Static hosts serve the pre-rendered page instead, which is loaded as a whole
+        if (response.ok) {
+            url.searchParams.delete(INITIAL_DATA_PARAM);
+            return { redirect: url.href };
+        }
+
+        throw new Error(`Loading data for ${path} failed with status ${response.status}`);
+    }
+
+    const result = await response.json();
+
+    if (!response.ok && !result.notFound) {
+        throw new Error(result.error || `Loading data for ${path} failed with status ${response.status}`);
+    }
+
+    return result;
+}
+
+/**
+ * Fetches the loader result of a page into the query cache ahead of navigation
+ *
+ * Skipped while a fresh result is cached or being fetched.
+ *
+ * @param queryClient Query client of the app
+ * @param path URL path and search of the page
+ */
+export async function prefetchInitialData(queryClient: QueryClient, path: string): Promise<void> {
+    await queryClient.prefetchQuery({
+        queryKey: getInitialDataQueryKey(path),
+        queryFn: () => fetchInitialData(path),
+        staleTime: INITIAL_DATA_STALE_TIME
+    });
+}
+
+/**
+ * Navigates to a redirect target, absolute URLs are loaded as a whole
+ */
+export function Redirect({ to }: { to: string }) {
+    const external = /^([a-z][a-z\d+.-]*:)?\/\//i.test(to);
+
+    useEffect(() => {
+        if (external) {
+            window.location.replace(to);
+        }
+    }, [external, to]);
+
+    return external ? null : <Navigate to={to} replace />;
+}
+
+/**
+ * Props of a page with a loader
+ */
+export interface InitialDataPageProps {
+    /**
+     * Page component, with a `getInitialData` loader
+     */
+    component: React.ComponentType<any>;
+
+    /**
+     * Rendered when the loader throws `notFound()`
+     */
+    notFoundPage: React.ComponentType<any>;
+
+    /**
+     * Props passed to the page
+     */
+    pageProps?: Record<string, any>;
+}
+
+/**
+ * Renders a page with the result of its loader
+ *
+ * The result is read from the query cache, where the server render puts
+ * it. During client-side navigation it's fetched first, suspending the
+ * page, and loader errors are thrown to the nearest error boundary.
+ */
+export function InitialDataPage({ component, notFoundPage, pageProps }: InitialDataPageProps) {
+    const { pathname, search } = useLocation();
+    const path = `${pathname}${search}`;
+
+    const { data: result } = useQuery({
+        queryKey: getInitialDataQueryKey(path),
+        queryFn: () => fetchInitialData(path),
+        staleTime: INITIAL_DATA_STALE_TIME,
+        suspense: true
+    });
+
+    if (!result || 'notFound' in result) {
+        return React.createElement(notFoundPage);
+    }
+
+    if ('redirect' in result) {
+        return <Redirect to={result.redirect} />;
+    }
+
+    return React.createElement(component, { ...pageProps, initialData: result.data });
+}
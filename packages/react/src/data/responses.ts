@@ -0,0 +1,159 @@
+/**
+ * @fileoverview Response helpers
+ *
+ * Helpers pages and their loaders throw to redirect or to render the not
+ * found page instead of the page, and the response API setting the status,
+ * headers and cookies of the page response.
+ */
+import { createContext, useContext } from 'react';
+import type { CookieOptions } from 'hono/utils/cookie';
+
+export type { CookieOptions };
+
+/**
+ * Redirect statuses accepted by `redirect()`
+ */
+export type RedirectStatus = 301 | 302 | 303 | 307 | 308;
+
+/**
+ * Error thrown by `redirect()`
+ */
+export class RedirectError extends Error {
+    /**
+     * URL to redirect to
+     */
+    readonly location: string;
+
+    /**
+     * Redirect status
+     */
+    readonly status: RedirectStatus;
+
+    constructor(location: string, status: RedirectStatus = 302) {
+        super(`Redirect to ${location}`);
+        this.name = 'RedirectError';
+        this.location = location;
+        this.status = status;
+    }
+}
+
+/**
+ * Error thrown by `notFound()`
+ */
+export class NotFoundError extends Error {
+    constructor() {
+        super('Not found');
+        this.name = 'NotFoundError';
+    }
+}
+
+/**
+ * Redirects to another URL instead of rendering the page
+ *
+ * Responds with the redirect status during server rendering and navigates
+ * to the URL during client-side navigation. Pages can throw it while
+ * rendering too, until the shell of a streamed page has been sent.
+ *
+ * @param location URL to redirect to
+ * @param status Redirect status, 302 by default
+ * @throws RedirectError, always
+ *
+ * @example
+ * ```typescript
+ * Dashboard.getInitialData = async ({ request }) => {
+ *     const user = await getUser(request);
+ *
+ *     if (!user) {
+ *         redirect('/login');
+ *     }
+ *
+ *     return { user };
+ * };
+ * ```
+ */
+export function redirect(location: string, status: RedirectStatus = 302): never {
+    throw new RedirectError(location, status);
+}
+
+/**
+ * Renders the not found page instead of the page, with status 404 during server rendering
+ *
+ * @throws NotFoundError, always
+ *
+ * @example
+ * ```typescript
+ * Post.getInitialData = async ({ params }) => {
+ *     const post = await getPost(params.slug);
+ *     return post ?? notFound();
+ * };
+ * ```
+ */
+export function notFound(): never {
+    throw new NotFoundError();
+}
+
+/**
+ * Response of a page, set by pages and their loaders during server rendering
+ */
+export interface PageResponse {
+    /**
+     * Sets the response status
+     *
+     * @param status HTTP status
+     */
+    setStatus(status: number): void;
+
+    /**
+     * Sets a response header
+     *
+     * @param name Header name
+     * @param value Header value
+     */
+    setHeader(name: string, value: string): void;
+
+    /**
+     * Sets a cookie
+     *
+     * @param name Cookie name
+     * @param value Cookie value
+     * @param options Cookie options
+     */
+    setCookie(name: string, value: string, options?: CookieOptions): void;
+}
+
+/**
+ * Response used outside of server rendering, where there's nothing to set
+ */
+const CLIENT_RESPONSE: PageResponse = {
+    setStatus() {},
+    setHeader() {},
+    setCookie() {}
+};
+
+/**
+ * Response of the page being server-rendered
+ */
+export const PageResponseContext = createContext<PageResponse>(CLIENT_RESPONSE);
+
+/**
+ * Gets the response of the page being server-rendered
+ *
+ * Only what's set while rendering the shell reaches streamed pages, the
+ * response has been sent by the time Suspense boundaries render. Does
+ * nothing on the client.
+ *
+ * @returns Page response
+ *
+ * @example
+ * ```tsx
+ * export default function Archive() {
+ *     const response = useResponse();
+ *     response.setHeader('Cache-Control', 'public, max-age=3600');
+ *
+ *     return <h1>Archive</h1>;
+ * }
+ * ```
+ */
+export function useResponse(): PageResponse {
+    return useContext(PageResponseContext);
+}
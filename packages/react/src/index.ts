@@ -6,7 +6,9 @@
 export * from './components';
 export * from './hooks';
 export * from './router';
+export * from './data';
 export * from './api';
 export * from './seo';
 export * from './server';
+export * from './client';
 export * from './types';
\ No newline at end of file
@@ -0,0 +1,140 @@
+/**
+ * @fileoverview React Fast Refresh runtime
+ *
+ * Development-only runtime that swaps updated components in place, keeping
+ * their state. It must run before `react-dom` is loaded, so the development
+ * client entry imports it first.
+ */
+import RefreshRuntime from 'react-refresh/runtime';
+
+declare global {
+    interface Window {
+        /**
+         * Applies updated client modules pushed by the development server
+         */
+        __RYTESTACK_HOT_UPDATE__?: (urls: string[]) => Promise<void>;
+    }
+}
+
+/**
+ * Exports of a registered module, compared when the module is evaluated again
+ */
+interface ModuleSnapshot {
+    /**
+     * Export names
+     */
+    names: string;
+
+    /**
+     * Source or serialized value of every export that isn't a component
+     */
+    values: Record<string, string>;
+}
+
+/**
+ * Snapshots of the registered modules, keyed by module ID
+ */
+const snapshots = new Map<string, ModuleSnapshot>();
+
+/**
+ * Whether an update changed something components can't be swapped for
+ */
+let reloadRequired = false;
+
+/**
+ * Describes an export that isn't a component, so changes to it are detected
+ */
+function describeExport(value: unknown): string {
+    if (typeof value === 'function') {
+        return String(value);
+    }
+
+    try {
+        return JSON.stringify(value) ?? String(value);
+    } catch (error) {
+        // Circular or otherwise unserializable values are compared by their string form
+        return String(value);
+    }
+}
+
+/**
+ * Creates the signature of a component's hooks, so components whose hooks
+ * changed are remounted instead of keeping incompatible state
+ *
+ * Called by the code `react-refresh/babel` adds to every source module.
+ */
+export const createRefreshSignature = RefreshRuntime.createSignatureFunctionForTransform;
+
+/**
+ * Registers a component of a source module, exported or not
+ *
+ * Called by the code `react-refresh/babel` adds to every source module.
+ *
+ * @param type Component
+ * @param id Stable ID of the component, the module ID followed by its name
+ */
+export function registerRefreshComponent(type: unknown, id: string): void {
+    RefreshRuntime.register(type, id);
+}
+
+/**
+ * Records the exports of an evaluated module
+ *
+ * Called by the code appended to every source module in development, once
+ * its components are registered. When a module is evaluated again, changed
+ * exports that aren't components (e.g. a page's `meta` or a layout's
+ * helper) and added or removed exports can't be swapped in place, so the
+ * page reloads.
+ *
+ * @param id Module ID, the path of the module relative to the source directory
+ * @param exports Module namespace
+ */
+export function registerRefreshModule(id: string, exports: Record<string, unknown>): void {
+    const snapshot: ModuleSnapshot = { names: Object.keys(exports).sort().join(','), values: {} };
+
+    for (const [name, value] of Object.entries(exports)) {
+        if (!RefreshRuntime.isLikelyComponentType(value)) {
+            snapshot.values[name] = describeExport(value);
+        }
+    }
+
+    const previous = snapshots.get(id);
+
+    if (previous && (
+        previous.names !== snapshot.names ||
+        Object.entries(snapshot.values).some(([name, value]) => previous.values[name] !== value)
+    )) {
+        reloadRequired = true;
+    }
+
+    snapshots.set(id, snapshot);
+}
+
+/**
+ * Applies updated client modules
+ *
+ * The chunks are imported under a new URL, which evaluates their modules
+ * again and registers the new components, then React re-renders them.
+ *
+ * @param urls URLs of the updated chunks
+ */
+async function applyHotUpdate(urls: string[]): Promise<void> {
+    reloadRequired = false;
+
+    try {
+        await Promise.all(urls.map(url => import(`${url}?t=${Date.now()}`)));
+    } catch (error) {
+        console.error('[rytestack] Hot update failed, reloading', error);
+        reloadRequired = true;
+    }
+
+    if (reloadRequired || RefreshRuntime.hasUnrecoverableErrors()) {
+        location.reload();
+        return;
+    }
+
+    RefreshRuntime.performReactRefresh();
+}
+
+RefreshRuntime.injectIntoGlobalHook(window);
+window.__RYTESTACK_HOT_UPDATE__ = applyHotUpdate;
@@ -12,16 +12,8 @@ import { createBrowserRouter, type RouteObject } from 'react-router-dom';
  * @returns Browser router instance
  */
 export function createClientRouter(routes: RouteObject[]) {
-    /**
-     * Creates a client-side router using React Router
-     *
-     * @param routes React Router route objects
-     * @returns Browser router instance
-     */
-    export function createClientRouter(routes: RouteObject[]) {
-        return createBrowserRouter(routes, {
-            // We use basename in case the app is not deployed at the root
-            basename: process.env.BASE_PATH || '/'
-        });
-    }
-}
\ No newline at end of file
+    return createBrowserRouter(routes, {
+        // We use basename in case the app is not deployed at the root
+        basename: process.env.BASE_PATH || '/'
+    });
+}
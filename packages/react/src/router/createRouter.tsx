@@ -3,11 +3,12 @@
  *
  * Creates routes for React Router from Rytestack routes.
  */
-import React from 'react';
-import { RouteObject } from 'react-router-dom';
-import { Route } from '@rytestack/core';
+import React, { Suspense } from 'react';
+import { Outlet, RouteObject } from 'react-router-dom';
+import { Route, RouteManifest, manifestToRoutes, toRouterPath } from '@rytestack/core';
 import { RyteRouteObject } from './types';
-import { ErrorBoundary } from '../components/ErrorBoundary';
+import { InitialDataPage } from '../data/initialData';
+import { NotFoundRoute, RouteErrorBoundary, ScopedErrorPages } from './errorPages';
 
 /**
  * Options for creating a router
@@ -16,20 +17,42 @@ export interface CreateRouterOptions {
     /**
      * Rytestack routes
      */
-    routes: Route[];
+    routes?: Route[];
 
     /**
-     * Map of page components
+     * Route manifest, used instead of `routes` when given
+     */
+    manifest?: RouteManifest;
+
+    /**
+     * Map of page components, keyed by component file (or manifest path when using a manifest)
      */
     pages: Record<string, any>;
 
     /**
-     * Map of layout components
+     * Map of layout components, keyed by layout name or `_layout` file path
      */
     layouts: Record<string, any>;
 
     /**
-     * Not found page component
+     * Map of loading fallbacks exported by the pages as `Loading`, keyed like `pages`
+     */
+    loading?: Record<string, any>;
+
+    /**
+     * Lazy module loaders keyed by manifest path (the `modules` export of the
+     * virtual manifest module), pages missing from `pages` are loaded from
+     * them when first rendered
+     */
+    modules?: Record<string, () => Promise<any>>;
+
+    /**
+     * Map of `_error` and `_404` page components, keyed by manifest path
+     */
+    errorPages?: Record<string, any>;
+
+    /**
+     * Not found page component, used where no `_404` page applies
      */
     notFoundPage?: React.ComponentType<any>;
 }
@@ -50,78 +73,195 @@ function NotFoundPage() {
             <div className="text-center">
                 <h1 className="text-6xl font-bold text-gray-900">404</h1>
                 <p className="text-xl text-gray-600 mt-4">Page not found</p>
-
-                href="/"
-                className="mt-6 inline-block px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
+                <a
+                    href="/"
+                    className="mt-6 inline-block px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
                 >
-                Go Home
-            </a>
+                    Go Home
+                </a>
+            </div>
         </div>
-</div>
-);
+    );
+}
+
+/**
+ * Options for rendering a page
+ */
+interface PageRenderOptions {
+    /**
+     * Map of layout components, keyed by layout name or `_layout` file path
+     */
+    layouts: Record<string, any>;
+
+    /**
+     * Whether the page is nested in a directory layout
+     */
+    nested: boolean;
+
+    /**
+     * Not found page component
+     */
+    notFoundPage: React.ComponentType<any>;
+}
+
+/**
+ * Creates the component rendering a page in its layout
+ *
+ * Pages with a loader render once its data is loaded, showing their
+ * `Loading` fallback meanwhile when they export one.
+ *
+ * @param component Page component
+ * @param Loading Loading fallback of the page
+ * @param options Render options
+ * @returns Page component in its layout
+ */
+function createPageRenderer(
+    component: any,
+    Loading: React.ComponentType | undefined,
+    { layouts, nested, notFoundPage }: PageRenderOptions
+): React.ComponentType<any> {
+    // Pages without a directory layout fall back to a named or default layout
+    const Layout = component.layout
+        ? layouts[component.layout]
+        : nested ? DefaultLayout : layouts.default || DefaultLayout;
+
+    return (props: any) => {
+        const page = component.getInitialData
+            ? <InitialDataPage component={component} notFoundPage={notFoundPage} pageProps={props} />
+            : React.createElement(component, props);
+
+        return <Layout>{Loading ? <Suspense fallback={<Loading />}>{page}</Suspense> : page}</Layout>;
+    };
+}
+
+/**
+ * Creates a pathless route that renders a layout around its child routes
+ *
+ * @param Layout Layout component
+ * @param children Child routes, added to as pages are processed
+ * @returns Layout route object
+ */
+function createLayoutRoute(Layout: React.ComponentType<{ children: React.ReactNode }>, children: RouteObject[]): RyteRouteObject {
+    return {
+        element: (
+            <Layout>
+                <Outlet />
+            </Layout>
+        ),
+        layout: Layout,
+        children
+    };
 }
 
 /**
  * Creates routes for React Router from Rytestack routes
  *
+ * Routes wrapped by `_layout` files are nested under pathless layout routes,
+ * so a layout stays mounted while navigating between its child routes.
+ *
+ * Errors thrown by a page render the deepest `_error` page of its folders,
+ * unknown URLs and `notFound()` the deepest `_404` page.
+ *
+ * Pages missing from `pages` are code split: their module is loaded from
+ * `modules` when the route first renders. Navigations run in transitions,
+ * so the current page stays on screen meanwhile. The `Loading` fallback of
+ * a page shows while its data loads.
+ *
  * @param options Router options
  * @returns React Router route objects
  */
 export function createRouter({
-                                 routes,
+                                 routes = [],
+                                 manifest,
                                  pages,
                                  layouts,
+                                 loading = {},
+                                 modules = {},
+                                 errorPages = {},
                                  notFoundPage = NotFoundPage
                              }: CreateRouterOptions): RouteObject[] {
-    // Create route hierarchy
-    const routeMap: Record<string, RyteRouteObject> = {};
+    const scopedErrorPages: ScopedErrorPages = { entries: manifest?.errorPages || [], components: errorPages };
+    const ScopedNotFoundPage = () => <NotFoundRoute pages={scopedErrorPages} fallback={notFoundPage} />;
+
+    // Top-level routes
+    const rootRoutes: RouteObject[] = [];
+
+    // Child routes of the layout routes, by their layout chain
+    const layoutChildren: Record<string, RouteObject[]> = {};
 
     // Process all routes
-    routes.forEach(route => {
-        // Get page component
+    const routeList = manifest ? manifestToRoutes(manifest).routes : routes;
+
+    routeList.forEach(route => {
+        // Get page component, or the loader of its module
         const component = pages[route.component];
+        const loadPage = modules[route.component];
 
-        if (!component) {
+        if (!component && !loadPage) {
             console.warn(`Component not found for route: ${route.path}`);
             return;
         }
 
-        // Get layout component
-        const layout = component.layout
-            ? layouts[component.layout]
-            : layouts.default || DefaultLayout;
-
-        // Create a wrapped component with layout
-        const WrappedComponent = (props: any) => {
-            const Layout = layout;
-
-            return (
-                <ErrorBoundary>
-                    <Layout>
-                        {React.createElement(component, props)}
-                    </Layout>
-                </ErrorBoundary>
-            );
-        };
+        // Find the routes to add this page to by walking down its layout chain
+        let siblings = rootRoutes;
+        let chainKey = '';
+
+        for (const layoutFile of route.layouts || []) {
+            chainKey = `${chainKey}>${layoutFile}`;
+
+            if (!layoutChildren[chainKey]) {
+                const Layout = layouts[layoutFile];
+
+                if (!Layout) {
+                    console.warn(`Layout not found: ${layoutFile}`);
+                    continue;
+                }
+
+                layoutChildren[chainKey] = [];
+                siblings.push(createLayoutRoute(Layout, layoutChildren[chainKey]));
+            }
+
+            siblings = layoutChildren[chainKey];
+        }
+
+        const RouteNotFoundPage = () => <NotFoundRoute pages={scopedErrorPages} routePath={route.path} fallback={notFoundPage} />;
+        const renderOptions = { layouts, nested: siblings !== rootRoutes, notFoundPage: RouteNotFoundPage };
+        const Page = component
+            ? createPageRenderer(component, loading[route.component], renderOptions)
+            : React.lazy(async () => {
+                const module = await loadPage();
+
+                if (!module.default) {
+                    throw new Error(`Page module has no default export: ${route.component}`);
+                }
+
+                return { default: createPageRenderer(module.default, module.Loading, renderOptions) };
+            });
+
+        // Errors of the page, including failures to load its module, are caught per route
+        const WrappedComponent = (props: any) => (
+            <RouteErrorBoundary pages={scopedErrorPages} routePath={route.path} notFoundPage={RouteNotFoundPage}>
+                <Page {...props} />
+            </RouteErrorBoundary>
+        );
 
         // Create route object
         const routeObject: RyteRouteObject = {
-            path: route.path,
+            path: toRouterPath(route.path),
             element: <WrappedComponent />,
-            index: route.index,
-            meta: route.meta
+            meta: route.meta,
+            // Index routes can't have children, so React Router types them apart
+            ...(route.index ? { index: true } : {})
         };
 
-        // Add to route map
-        routeMap[route.path] = routeObject;
+        siblings.push(routeObject);
     });
 
     // Add 404 route
     const notFoundRoute: RyteRouteObject = {
         path: '*',
-        element: React.createElement(notFoundPage)
+        element: <ScopedNotFoundPage />
     };
 
-    // Convert to flat array of routes
-    return [...Object.values(routeMap), notFoundRoute];
-}
\ No newline at end of file
+    return [...rootRoutes, notFoundRoute];
+}
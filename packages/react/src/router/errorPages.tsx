@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Error pages
+ *
+ * Renders the `_error` and `_404` pages that apply to the current URL,
+ * or to the current route for pages in route groups.
+ */
+import React, { useEffect, useMemo } from 'react';
+import { useLocation } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { ManifestErrorPage, matchRoutePath } from '@rytestack/core';
+import { DefaultErrorFallback, ErrorBoundary } from '../components/ErrorBoundary';
+import { SerializedError, deserializeError, getRenderErrorQueryKey } from '../data/errors';
+import { Redirect } from '../data/initialData';
+import { RedirectError } from '../data/responses';
+
+/**
+ * Props of an `_error` page
+ */
+export interface ErrorPageProps {
+    /**
+     * Error thrown by the page, with a generic message when thrown during
+     * server rendering in production
+     */
+    error: Error;
+
+    /**
+     * Renders the page again
+     */
+    reset: () => void;
+}
+
+/**
+ * Error pages of the app with the folders they apply to
+ */
+export interface ScopedErrorPages {
+    /**
+     * Error page entries of the route manifest, ordered parent to child
+     */
+    entries: ManifestErrorPage[];
+
+    /**
+     * Page components keyed by manifest path
+     */
+    components: Record<string, any>;
+}
+
+/**
+ * Finds the deepest error page of a type applying to the current URL
+ *
+ * Pages in route groups only apply to the routes of their folder, so
+ * they're skipped when no route matched the URL.
+ *
+ * @param pages Error pages of the app
+ * @param type Type of error page
+ * @param routePath Path pattern of the route that matched the URL
+ */
+function useErrorPage(pages: ScopedErrorPages, type: ManifestErrorPage['type'], routePath?: string): React.ComponentType<any> | undefined {
+    const { pathname } = useLocation();
+    const appliesTo = (entry: ManifestErrorPage) => entry.routes
+        ? routePath !== undefined && entry.routes.includes(routePath)
+        : matchRoutePath(entry.path, pathname, { prefix: true }) !== null;
+    const entry = [...pages.entries]
+        .reverse()
+        .find(entry => entry.type === type && pages.components[entry.file] && appliesTo(entry));
+
+    return entry && pages.components[entry.file];
+}
+
+/**
+ * Catches the errors of a page and renders the `_error` page applying to it
+ *
+ * Starts with the error the page threw during server rendering, if any, so
+ * hydration matches the error page the server sent. Pages throwing
+ * `redirect()` while rendering navigate to its URL, and those throwing
+ * `notFound()` render the not found page.
+ */
+export function RouteErrorBoundary({ pages, routePath, notFoundPage: NotFound, children }: {
+    pages: ScopedErrorPages;
+    routePath: string;
+    notFoundPage: React.ComponentType<any>;
+    children: React.ReactNode;
+}) {
+    const { pathname, search } = useLocation();
+    const queryClient = useQueryClient();
+    const path = `${pathname}${search}`;
+    const queryKey = getRenderErrorQueryKey(path);
+    const ErrorPage = useErrorPage(pages, 'error', routePath);
+
+    // Put in the query cache by the server, never fetched
+    const { data: serverError } = useQuery<SerializedError>({ queryKey, enabled: false, staleTime: Infinity });
+    const error = useMemo(() => serverError && deserializeError(serverError), [serverError]);
+
+    // Only shown until leaving the page, coming back renders it again
+    useEffect(() => () => queryClient.removeQueries({ queryKey: getRenderErrorQueryKey(path) }), [queryClient, path]);
+
+    return (
+        <ErrorBoundary
+            error={error}
+            onReset={() => queryClient.removeQueries({ queryKey })}
+            fallback={(error, reset) => {
+                if (error instanceof RedirectError) {
+                    return <Redirect to={error.location} />;
+                }
+
+                // Matched by name, as errors from the server are deserialized as plain errors
+                if (error.name === 'NotFoundError') {
+                    return <NotFound />;
+                }
+
+                return ErrorPage ? <ErrorPage error={error} reset={reset} /> : <DefaultErrorFallback error={error} reset={reset} />;
+            }}
+        >
+            {children}
+        </ErrorBoundary>
+    );
+}
+
+/**
+ * Renders the `_404` page applying to the current URL
+ *
+ * `routePath` is set when a route matched and threw `notFound()`.
+ */
+export function NotFoundRoute({ pages, routePath, fallback }: {
+    pages: ScopedErrorPages;
+    routePath?: string;
+    fallback: React.ComponentType<any>;
+}) {
+    const NotFound = useErrorPage(pages, 'notFound', routePath) || fallback;
+
+    return <NotFound />;
+}
@@ -5,4 +5,7 @@
  */
 export * from './createRouter';
 export * from './createClientRouter';
+export * from './loadRouteModules';
+export * from './prefetch';
+export * from './errorPages';
 export * from './types';
\ No newline at end of file
@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Route module loading utility
+ *
+ * Loads the page and layout components of a route manifest.
+ */
+import { ManifestRoute, RouteManifest } from '@rytestack/core';
+
+/**
+ * Loaded page and layout components, keyed by manifest path
+ */
+export interface RouteModules {
+    /**
+     * Page components
+     */
+    pages: Record<string, any>;
+
+    /**
+     * Layout components
+     */
+    layouts: Record<string, any>;
+
+    /**
+     * Loading fallbacks exported by the pages as `Loading`
+     */
+    loading: Record<string, any>;
+
+    /**
+     * `_error` and `_404` page components
+     */
+    errorPages: Record<string, any>;
+}
+
+/**
+ * Loads the page and layout components of a route manifest
+ *
+ * The result can be passed to createRouter together with the manifest.
+ * Every layout and error page is loaded, pages only for the given routes, so the others
+ * can be loaded by createRouter once rendered.
+ *
+ * @param manifest Route manifest
+ * @param modules Lazy module loaders keyed by manifest path (the `modules` export of the virtual manifest module)
+ * @param routes Routes to load the pages of, all by default
+ * @returns Loaded components
+ */
+export async function loadRouteModules(
+    manifest: RouteManifest,
+    modules: Record<string, () => Promise<any>>,
+    routes: ManifestRoute[] = manifest.routes
+): Promise<RouteModules> {
+    const load = async (files: Iterable<string>) => Object.fromEntries(await Promise.all(
+        [...files].filter(file => modules[file]).map(async file => [file, await modules[file]()] as const)
+    ));
+
+    const [pageModules, layoutModules, errorPageModules] = await Promise.all([
+        load(new Set(routes.map(route => route.component))),
+        load(new Set(manifest.routes.flatMap(route => route.layouts))),
+        load(manifest.errorPages.map(entry => entry.file))
+    ]);
+
+    const exportsOf = (loaded: Record<string, any>, name: string) => Object.fromEntries(
+        Object.entries(loaded).filter(([, module]) => module[name]).map(([file, module]) => [file, module[name]])
+    );
+
+    return {
+        pages: exportsOf(pageModules, 'default'),
+        layouts: exportsOf(layoutModules, 'default'),
+        loading: exportsOf(pageModules, 'Loading'),
+        errorPages: exportsOf(errorPageModules, 'default')
+    };
+}
@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Route prefetching
+ *
+ * Loads the chunk and the data of a page ahead of navigation.
+ */
+import React, { createContext, useCallback, useContext } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { RouteManifest, matchRoutePath } from '@rytestack/core';
+import { prefetchInitialData } from '../data/initialData';
+
+/**
+ * Routes of the app, with the loaders of their chunks
+ */
+export interface RouteChunks {
+    /**
+     * Route manifest
+     */
+    manifest: RouteManifest;
+
+    /**
+     * Lazy module loaders keyed by manifest path (the `modules` export of the virtual manifest module)
+     */
+    modules: Record<string, () => Promise<any>>;
+}
+
+const RouteChunksContext = createContext<RouteChunks | null>(null);
+
+/**
+ * Provides the route chunks pages are prefetched from, set up by `hydrateApp`
+ */
+export function RouteChunksProvider({ children, ...value }: RouteChunks & { children: React.ReactNode }) {
+    return <RouteChunksContext.Provider value={value}>{children}</RouteChunksContext.Provider>;
+}
+
+/**
+ * Chunks already requested, module loaders only need to be called once
+ */
+const loadedChunks = new Map<string, Promise<any>>();
+
+/**
+ * Whether the user asked to reduce data usage
+ */
+function isSaveDataEnabled(): boolean {
+    return typeof navigator !== 'undefined' && Boolean((navigator as any).connection?.saveData);
+}
+
+/**
+ * Gets a function prefetching pages
+ *
+ * Prefetching a page loads the chunks of the page and its layouts, then
+ * fetches the result of its `getInitialData` loader into the query cache.
+ * Chunks are loaded once, loader results again once stale. Does nothing
+ * when the user enabled data saving or outside of `hydrateApp`.
+ *
+ * @returns Prefetches the page at a URL path and search
+ *
+ * @example
+ * ```tsx
+ * const prefetch = usePrefetch();
+ *
+ * useEffect(() => {
+ *     prefetch('/checkout');
+ * }, [prefetch]);
+ * ```
+ */
+export function usePrefetch(): (path: string) => Promise<void> {
+    const chunks = useContext(RouteChunksContext);
+    const queryClient = useQueryClient();
+
+    return useCallback(async (path: string) => {
+        if (!chunks || isSaveDataEnabled()) {
+            return;
+        }
+
+        const { pathname } = new URL(path, window.location.origin);
+        const route = chunks.manifest.routes.find(entry => matchRoutePath(entry.path, pathname));
+
+        if (!route) {
+            return;
+        }
+
+        const load = (file: string) => {
+            if (!loadedChunks.has(file) && chunks.modules[file]) {
+                loadedChunks.set(file, chunks.modules[file]());
+            }
+
+            return loadedChunks.get(file);
+        };
+
+        try {
+            const [page] = await Promise.all([load(route.component), ...route.layouts.map(load)]);
+
+            if (page?.default?.getInitialData) {
+                await prefetchInitialData(queryClient, path);
+            }
+        } catch {
+            // Navigating loads the page again and reports its errors
+            loadedChunks.delete(route.component);
+            route.layouts.forEach(file => loadedChunks.delete(file));
+        }
+    }, [chunks, queryClient]);
+}
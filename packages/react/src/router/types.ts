@@ -7,18 +7,11 @@ import { RouteObject } from 'react-router-dom';
 
 /**
  * Enhanced route object with Rytestack features
+ *
+ * A React Router route object, index or not, with extra fields React
+ * Router ignores.
  */
-export interface RyteRouteObject extends RouteObject {
-  /**
-   * Route path
-   */
-  path?: string;
-
-  /**
-   * Whether this is an index route
-   */
-  index?: boolean;
-
+export type RyteRouteObject = RouteObject & {
   /**
    * Component to render
    */
@@ -38,9 +31,4 @@ export interface RyteRouteObject extends RouteObject {
    * Whether to prefetch this route
    */
   prefetch?: boolean;
-
-  /**
-   * Child routes
-   */
-  children?: RyteRouteObject[];
-}
\ No newline at end of file
+};
@@ -0,0 +1,634 @@
+/**
+ * @fileoverview Page handler creation utility
+ *
+ * Renders the pages of a route manifest to complete HTML documents.
+ */
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { Context } from 'hono';
+import { StatusCode } from 'hono/utils/http-status';
+import { useRoutes } from 'react-router-dom';
+import { QueryClient, dehydrate } from '@tanstack/react-query';
+import {
+    AssetManifest,
+    ManifestRoute,
+    RouteManifest,
+    RytestackConfig,
+    getAllowHeader,
+    matchRoutePath,
+    transformHtml
+} from '@rytestack/core';
+import { createRouter } from '../router/createRouter';
+import { loadRouteModules } from '../router/loadRouteModules';
+import { HYDRATION_DATA_ID, HydrationData } from '../components/Hydrate';
+import { DefaultDocument, DocumentSlot, getDocumentSlotMarkup } from '../components/Document';
+import { INITIAL_DATA_PARAM, getInitialDataQueryKey, runInitialDataLoader } from '../data/initialData';
+import { CSRF_FIELD, CSRF_TOKEN_QUERY_KEY, getActionDataQueryKey } from '../data/actions';
+import { getRenderErrorQueryKey, serializeError } from '../data/errors';
+import { NotFoundError, RedirectError } from '../data/responses';
+import { PageComponent } from '../types';
+import { renderToString } from './renderToString';
+import { StreamRenderResult, renderToStream } from './renderToStream';
+import { RenderedPage, getRenderCacheStore, serveCachedPage } from './isr';
+import { RecordedPageResponse, applyPageResponse, createPageResponse } from './pageResponse';
+import { ServerRenderContext, ServerRenderResult } from './types';
+
+/**
+ * Options for creating a page handler
+ */
+export interface CreatePageHandlerOptions {
+    /**
+     * Rytestack configuration
+     */
+    config: RytestackConfig;
+
+    /**
+     * Route manifest
+     */
+    manifest: RouteManifest;
+
+    /**
+     * Lazy module loaders keyed by manifest path (the `modules` export of the virtual manifest module)
+     */
+    modules: Record<string, () => Promise<any>>;
+
+    /**
+     * Client assets, referenced from the rendered documents
+     */
+    assets?: AssetManifest;
+}
+
+/**
+ * Placeholders marking where a streamed page and its hydration data go in the document
+ */
+const STREAM_MARKER = '<!--rytestack-stream-->';
+const DATA_MARKER = '<!--rytestack-data-->';
+
+/**
+ * Document slots, in the order they must appear
+ */
+const DOCUMENT_SLOTS: DocumentSlot[] = ['head', 'main', 'scripts'];
+
+/**
+ * Closing tag of the element pages are rendered into
+ */
+const ROOT_END = '</div>';
+
+/**
+ * Placeholder for the CSRF token in cached renders, replaced with the token of each visitor
+ */
+const CSRF_TOKEN_PLACEHOLDER = '__rytestack_csrf_token__';
+
+/**
+ * Request headers identifying a visitor, left out of the requests of cached renders
+ */
+const SESSION_HEADERS = ['Cookie', 'Authorization'];
+
+/**
+ * User agents of crawlers, which get streamed pages once fully rendered
+ */
+const BOT_USER_AGENT = /bot|crawl|spider|slurp|facebookexternalhit|embedly|preview/i;
+
+/**
+ * Escapes JSON for embedding in a script element, so strings containing
+ * `</script>` can't close it
+ */
+function serializeData(data: HydrationData): string {
+    return JSON.stringify(data).replace(/</g, '\\u003c');
+}
+
+/**
+ * Copies a request without the headers identifying the visitor, for renders
+ * shared between visitors
+ */
+function createSharedRequest(request: Request): Request {
+    const headers = new Headers(request.headers);
+
+    SESSION_HEADERS.forEach(name => headers.delete(name));
+
+    return new Request(request.url, { method: request.method, headers });
+}
+
+/**
+ * Caches the result of an async load, a failed load is tried again on the next call
+ */
+function cacheLoad<T>(load: () => Promise<T>): () => Promise<T> {
+    let result: Promise<T> | undefined;
+
+    return () => result ??= load().catch(error => {
+        result = undefined;
+        throw error;
+    });
+}
+
+/**
+ * Renders a document component to markup with its slots left in place
+ *
+ * @throws Error if the document doesn't render `Head`, `Main` and `Scripts` in that order
+ */
+function renderDocumentTemplate(Document: React.ComponentType): string {
+    const template = `<!DOCTYPE html>${renderToStaticMarkup(<Document />)}`;
+    const positions = DOCUMENT_SLOTS.map(slot => template.indexOf(getDocumentSlotMarkup(slot)));
+
+    if (positions.some((position, index) => position === -1 || position < positions[index - 1])) {
+        throw new Error('The document must render <Head />, <Main /> and <Scripts />, in that order');
+    }
+
+    return template;
+}
+
+/**
+ * Renders the HTML document around a rendered page
+ */
+function renderDocument({ template, html, head, data, assets, routePath }: {
+    template: string;
+    html: string;
+    head: string;
+    data: string;
+    assets?: AssetManifest;
+    routePath?: string;
+}): string {
+    const route = routePath ? assets?.routes[routePath] : undefined;
+    const styles = [...(assets?.entry.css || []), ...(route?.css || [])];
+    const scripts = assets ? [assets.entry.file] : [];
+
+    // The page chunk is requested along with the entry instead of once the entry has run
+    const preloads = assets
+        ? [assets.entry.file, ...assets.entry.imports, ...(route ? [route.file, ...route.imports] : [])]
+        : [];
+
+    const slots: Record<DocumentSlot, string[]> = {
+        head: [
+            '<meta charset="utf-8">',
+            '<meta name="viewport" content="width=device-width, initial-scale=1">',
+            head.trim(),
+            ...[...new Set(styles)].map(href => `<link rel="stylesheet" href="${href}">`),
+            ...[...new Set(preloads)].map(href => `<link rel="modulepreload" href="${href}">`)
+        ],
+        main: [`<div id="root">${html}${ROOT_END}`],
+        scripts: [
+            `<script id="${HYDRATION_DATA_ID}" type="application/json">${data}</script>`,
+            ...scripts.map(src => `<script type="module" src="${src}"></script>`)
+        ]
+    };
+
+    // Replaced with functions, so `$` in the page isn't read as a replacement pattern
+    return DOCUMENT_SLOTS.reduce(
+        (document, slot) => document.replace(getDocumentSlotMarkup(slot), () => slots[slot].filter(Boolean).join('\n')),
+        template
+    );
+}
+
+/**
+ * Creates a handler rendering the pages of a route manifest
+ *
+ * Page and layout modules, and the `_document` rendering the HTML around
+ * every page, are loaded on the first request. Requests that match no page
+ * render the not found page with status 404. Pages throwing while loading
+ * their data or rendering render the `_error` page applying to them with
+ * status 500, the error is sent along for hydration, without its details
+ * in production. With SSR disabled, in the config or with `ssr: false` in
+ * the page config, only the document shell and the hydration data are sent
+ * and the client renders the page.
+ *
+ * Pages are streamed when `streaming` in their config, or `ssr.streaming`
+ * otherwise, is enabled: the document head is sent once the shell has
+ * rendered, Suspense boundaries follow as they resolve and the hydration
+ * data is sent last. Crawlers get the stream once everything has rendered.
+ *
+ * Pages with a `getInitialData` loader get its result as `initialData`.
+ * Loaders run before rendering, and behind `?_data` requests to the page
+ * URL, which respond with the result as JSON for client-side navigation.
+ * Scoped middleware applies to both, as they share the page URL.
+ *
+ * Pages, loaders and actions can throw `redirect()` to respond with a
+ * redirect, and `notFound()` to render the not found page with status 404,
+ * until the shell of a streamed page has been sent. The status, headers
+ * and cookies they set on their response (see `useResponse`) are part of
+ * the response, errors keep their own status.
+ *
+ * Forms posted to a page run its `action`. Posts from `<Form>`, marked by
+ * `?_data`, get the result as JSON, other posts get the page rendered again
+ * with the result. The CSRF token of the session, when the CSRF protection
+ * middleware runs, is put in every page for `<Form>`.
+ *
+ * In production, pages with `revalidate` in their config are served from
+ * the render cache of `config.isr.store` and re-rendered in the background
+ * once expired (incremental static regeneration). Their loaders get the
+ * request without its cookies and authorization, as renders are shared
+ * between visitors. URLs with a query string aren't cached.
+ *
+ * @param options Page handler options
+ * @returns Hono handler
+ *
+ * @example
+ * ```typescript
+ * import { manifest, modules } from 'virtual:rytestack/manifest';
+ *
+ * const pageHandler = createPageHandler({ config, manifest, modules, assets });
+ *
+ * app.get('*', pageHandler);
+ * app.post('*', pageHandler);
+ * ```
+ */
+export function createPageHandler({ config, manifest, modules, assets }: CreatePageHandlerOptions): (c: Context) => Promise<Response> {
+    const loadRoutes = cacheLoad(async () => createRouter({ manifest, ...await loadRouteModules(manifest, modules) }));
+    const loadDocumentTemplate = cacheLoad(async () => renderDocumentTemplate(
+        manifest.document ? (await modules[manifest.document]()).default : DefaultDocument
+    ));
+    const store = getRenderCacheStore(config);
+
+    const createApp = async () => {
+        const routeObjects = await loadRoutes();
+
+        return () => useRoutes(routeObjects);
+    };
+
+    const loadPage = async (route?: ManifestRoute): Promise<PageComponent | undefined> => {
+        const load = route && modules[route.component];
+
+        return load ? (await load()).default : undefined;
+    };
+
+    const getLoaderContext = (c: Context, url: URL, route: ManifestRoute, response: RecordedPageResponse, cached = false) => ({
+        params: matchRoutePath(route.path, url.pathname)!,
+        query: Object.fromEntries(url.searchParams),
+        request: cached ? createSharedRequest(c.req.raw) : c.req.raw,
+        response
+    });
+
+    const isRenderedOnServer = (route?: ManifestRoute) => route?.config.ssr ?? config.ssr.enabled;
+    const isStreamed = (route?: ManifestRoute) => isRenderedOnServer(route) && (route?.config.streaming ?? config.ssr.streaming);
+
+    const serializeServerError = (error: unknown) => serializeError(error, config.mode === 'production');
+
+    /**
+     * Checks that the CSRF protection middleware of @rytestack/security ran
+     *
+     * Forms of pages with an action post the token it creates. Unless CSRF
+     * protection is turned off or skips the path, these pages fail instead
+     * of accepting forged posts.
+     *
+     * @throws Error if CSRF protection is enabled but its middleware didn't run
+     */
+    const assertCsrfProtection = (c: Context, url: URL, route: ManifestRoute) => {
+        const csrf = config.security?.csrf;
+        const isIgnored = (csrf?.ignorePaths || []).some(ignorePath => ignorePath.endsWith('*')
+            ? url.pathname.startsWith(ignorePath.slice(0, -1))
+            : url.pathname === ignorePath);
+
+        if (csrf?.enabled !== false && !isIgnored && !c.get('csrfToken')) {
+            throw new Error(
+                `The page ${route.component} has an action, but CSRF protection isn't running. ` +
+                'Install @rytestack/security, or set security.csrf.enabled to false in the config'
+            );
+        }
+    };
+
+    /**
+     * Puts an error thrown while rendering a page in the query client, for its error page
+     *
+     * @returns Response status, 404 for `notFound()`
+     */
+    const setRenderError = (context: ServerRenderContext, error: unknown) => {
+        if (!(error instanceof NotFoundError)) {
+            console.error(`Error rendering ${context.url}:`, error);
+        }
+
+        context.queryClient!.setQueryData(getRenderErrorQueryKey(context.url), serializeServerError(error));
+
+        return error instanceof NotFoundError ? 404 : 500;
+    };
+
+    /**
+     * Applies the response set by a page and gets its status, errors keep theirs
+     */
+    const applyRenderResponse = (c: Context, context: ServerRenderContext, status: number) => {
+        applyPageResponse(c, context.response!);
+
+        return status === 200 ? context.response!.status ?? status : status;
+    };
+
+    /**
+     * Creates the render context, with the result of the page loader, the
+     * action result and the CSRF token in its query client
+     *
+     * Renders for the render cache are shared between visitors, so they get
+     * a placeholder instead of the CSRF token of the current session, and
+     * the loader gets the request without the visitor's session headers.
+     *
+     * @throws RedirectError if the loader redirects, after applying the headers and cookies it set
+     * @throws Error if the page has an action and CSRF protection isn't running
+     */
+    const createContext = async (c: Context, url: URL, route?: ManifestRoute, actionData?: unknown, response = createPageResponse(), cached = false) => {
+        const context = {
+            url: `${url.pathname}${url.search}`,
+            req: c.req,
+            res: c.res,
+            params: route ? matchRoutePath(route.path, url.pathname)! : {},
+            query: Object.fromEntries(url.searchParams),
+            config,
+            queryClient: new QueryClient(),
+            response
+        } as unknown as ServerRenderContext;
+
+        // Set by the CSRF protection middleware of @rytestack/security
+        const createCsrfToken = c.get('csrfToken') as (() => string) | undefined;
+
+        if (createCsrfToken) {
+            context.queryClient.setQueryData(CSRF_TOKEN_QUERY_KEY, cached ? CSRF_TOKEN_PLACEHOLDER : createCsrfToken());
+        }
+
+        if (actionData !== undefined) {
+            context.queryClient.setQueryData(getActionDataQueryKey(context.url), actionData);
+        }
+
+        let status = route ? 200 : 404;
+        const page = await loadPage(route);
+        const getInitialData = page?.getInitialData;
+
+        if (page?.action) {
+            assertCsrfProtection(c, url, route!);
+        }
+
+        if (getInitialData) {
+            try {
+                const result = await runInitialDataLoader(getInitialData, getLoaderContext(c, url, route!, response, cached));
+
+                context.queryClient.setQueryData(getInitialDataQueryKey(context.url), result);
+                status = 'notFound' in result ? 404 : status;
+            } catch (error) {
+                if (error instanceof RedirectError) {
+                    // Cookies set before redirecting (e.g. a session after signing in) are kept
+                    applyPageResponse(c, response);
+                    throw error;
+                }
+
+                status = setRenderError(context, error);
+            }
+        }
+
+        return { context, status };
+    };
+
+    const renderPage = async (c: Context, url: URL, route?: ManifestRoute, actionData?: unknown, response?: RecordedPageResponse, cached = false): Promise<RenderedPage> => {
+        const { context, status: contextStatus } = await createContext(c, url, route, actionData, response, cached);
+        let status = contextStatus;
+        let html = '';
+        let head = '';
+        let data: HydrationData = { dehydratedState: dehydrate(context.queryClient) };
+
+        if (isRenderedOnServer(route)) {
+            const App = await createApp();
+            let result: ServerRenderResult;
+
+            try {
+                result = await renderToString({ App, context });
+            } catch (error) {
+                if (error instanceof RedirectError) {
+                    applyPageResponse(c, context.response!);
+                    throw error;
+                }
+
+                // Rendered again, the error boundary of the page starts with the error
+                status = setRenderError(context, error);
+                result = await renderToString({ App, context });
+            }
+
+            html = result.html;
+            head = result.metaTags;
+            data = { dehydratedState: result.dehydratedState, pageProps: result.pageProps };
+        }
+
+        const template = await loadDocumentTemplate();
+        const document = renderDocument({ template, html, head, data: serializeData(data), assets, routePath: route?.path });
+
+        return {
+            html: await transformHtml(document, url.pathname, config),
+            status: applyRenderResponse(c, context, status),
+            headers: context.response!.headers,
+            setsCookies: context.response!.cookies.length > 0
+        };
+    };
+
+    /**
+     * Streams a page
+     *
+     * @throws RedirectError if the page redirects before its shell has been sent, after applying the headers and cookies it set
+     */
+    const streamPage = async (c: Context, url: URL, route?: ManifestRoute, actionData?: unknown, response?: RecordedPageResponse): Promise<Response> => {
+        const { context, status: contextStatus } = await createContext(c, url, route, actionData, response);
+        let status = contextStatus;
+        const App = await createApp();
+        let result: StreamRenderResult;
+
+        // Thrown inside Suspense boundaries, React renders them on the client instead
+        let thrown: RedirectError | NotFoundError | undefined;
+        const onError = (error: unknown) => {
+            if (error instanceof RedirectError || error instanceof NotFoundError) {
+                thrown ??= error;
+            } else {
+                console.error('Error streaming server render:', error);
+            }
+        };
+
+        // Suspense boundaries streamed after the shell go outside the root, so they don't disturb hydration
+        try {
+            result = await renderToStream({ App, context, shellEnd: ROOT_END, onError });
+        } catch (error) {
+            if (error instanceof RedirectError) {
+                applyPageResponse(c, context.response!);
+                throw error;
+            }
+
+            // Errors in the shell can still change the status, later ones are left to the client
+            status = setRenderError(context, error);
+            result = await renderToStream({ App, context, shellEnd: ROOT_END });
+        }
+
+        if (BOT_USER_AGENT.test(c.req.header('User-Agent') || '')) {
+            await result.allReady;
+        }
+
+        // Nothing has been sent yet, the response can still change
+        if (thrown) {
+            await result.stream.cancel();
+
+            if (thrown instanceof RedirectError) {
+                applyPageResponse(c, context.response!);
+                throw thrown;
+            }
+
+            status = setRenderError(context, thrown);
+            result = await renderToStream({ App, context, shellEnd: ROOT_END });
+        }
+
+        status = applyRenderResponse(c, context, status);
+
+        // HTML transforms run on the document around the page, split where the streamed parts go
+        const template = await loadDocumentTemplate();
+        const document = renderDocument({ template, html: STREAM_MARKER, head: result.metaTags, data: DATA_MARKER, assets, routePath: route?.path });
+        const [start, rest] = (await transformHtml(document, url.pathname, config)).split(STREAM_MARKER);
+        const [middle, end] = rest.slice(ROOT_END.length).split(DATA_MARKER);
+
+        const encoder = new TextEncoder();
+        const body = new ReadableStream<Uint8Array>({
+            async start(controller) {
+                try {
+                    controller.enqueue(encoder.encode(start));
+
+                    const reader = result.stream.getReader();
+
+                    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+                        controller.enqueue(chunk.value);
+                    }
+
+                    // Suspended queries have resolved once the page has been streamed
+                    const data = serializeData({ dehydratedState: result.getDehydratedState(), pageProps: result.pageProps });
+
+                    controller.enqueue(encoder.encode(`${middle}${data}${end}`));
+                    controller.close();
+                } catch (error) {
+                    controller.error(error);
+                }
+            }
+        });
+
+        // Asks proxies (and the compression middleware) to pass the stream through unbuffered
+        return c.body(body, status as StatusCode, { 'Content-Type': 'text/html; charset=UTF-8', 'X-Accel-Buffering': 'no' });
+    };
+
+    const serveInitialData = async (c: Context, url: URL, route?: ManifestRoute): Promise<Response> => {
+        url.searchParams.delete(INITIAL_DATA_PARAM);
+
+        if (!route) {
+            return c.json({ notFound: true }, 404);
+        }
+
+        try {
+            const response = createPageResponse();
+            const getInitialData = (await loadPage(route))?.getInitialData;
+            const result = getInitialData
+                ? await runInitialDataLoader(getInitialData, getLoaderContext(c, url, route, response), { catchRedirect: true })
+                : { data: null };
+
+            applyPageResponse(c, response);
+
+            return c.json(result, 'notFound' in result ? 404 : 200);
+        } catch (error) {
+            console.error(`Error loading data for ${url.pathname}:`, error);
+
+            return c.json({ error: serializeServerError(error).message }, 500);
+        }
+    };
+
+    /**
+     * Runs the action of a page with the posted form
+     *
+     * @throws RedirectError if the action redirects a post without `?_data`
+     * @throws Error if CSRF protection isn't running
+     */
+    const handleAction = async (c: Context, url: URL, route?: ManifestRoute): Promise<Response> => {
+        const action = (await loadPage(route))?.action;
+        const isData = url.searchParams.has(INITIAL_DATA_PARAM);
+
+        url.searchParams.delete(INITIAL_DATA_PARAM);
+
+        if (!action) {
+            return c.text('Method Not Allowed', 405, { Allow: getAllowHeader(['GET']) });
+        }
+
+        assertCsrfProtection(c, url, route!);
+
+        let formData: FormData;
+
+        try {
+            // Read through Hono, which caches the body the CSRF middleware may have parsed
+            formData = await c.req.formData();
+        } catch {
+            return c.text('Bad Request', 400);
+        }
+
+        formData.delete(CSRF_FIELD);
+
+        const response = createPageResponse();
+        let actionData: unknown;
+
+        try {
+            actionData = await action({ ...getLoaderContext(c, url, route!, response), formData });
+        } catch (error) {
+            // Cookies set before redirecting (e.g. a session after signing in) are kept
+            applyPageResponse(c, response);
+
+            if (!isData) {
+                throw error;
+            }
+
+            if (error instanceof RedirectError) {
+                return c.json({ redirect: error.location });
+            }
+
+            console.error(`Error running the action of ${url.pathname}:`, error);
+
+            return c.json({ error: serializeServerError(error).message }, 500);
+        }
+
+        if (isData) {
+            applyPageResponse(c, response);
+
+            // Undefined would be dropped from the JSON
+            return c.json({ actionData: actionData ?? null });
+        }
+
+        // The page rendered with the result shares the response of the action
+        if (isStreamed(route)) {
+            return streamPage(c, url, route, actionData, response);
+        }
+
+        const page = await renderPage(c, url, route, actionData, response);
+
+        return c.html(page.html, page.status as StatusCode);
+    };
+
+    return async (c: Context) => {
+        const url = new URL(c.req.url);
+        const route = manifest.routes.find(entry => matchRoutePath(entry.path, url.pathname));
+        const revalidate = route?.config.revalidate;
+
+        if (c.req.method !== 'POST' && url.searchParams.has(INITIAL_DATA_PARAM)) {
+            return serveInitialData(c, url, route);
+        }
+
+        try {
+            if (c.req.method === 'POST') {
+                return await handleAction(c, url, route);
+            }
+
+            // The query reaches the loader, so each URL would need its own render
+            if (config.mode === 'production' && typeof revalidate === 'number' && revalidate > 0 && !url.search) {
+                return await serveCachedPage({
+                    c,
+                    key: url.pathname,
+                    revalidate,
+                    store,
+                    render: () => renderPage(c, url, route, undefined, undefined, true),
+                    personalize: html => html.split(CSRF_TOKEN_PLACEHOLDER).join(c.get('csrfToken')?.() ?? '')
+                });
+            }
+
+            if (isStreamed(route)) {
+                return await streamPage(c, url, route);
+            }
+
+            const page = await renderPage(c, url, route);
+
+            return c.html(page.html, page.status as StatusCode);
+        } catch (error) {
+            if (error instanceof RedirectError) {
+                return c.redirect(error.location, error.status);
+            }
+
+            throw error;
+        }
+    };
+}
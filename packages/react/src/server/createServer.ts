@@ -4,10 +4,17 @@
  * Creates a Hono server for serving Rytestack applications.
  */
 import path from 'path';
-import { Hono } from 'hono';
-import { serveStatic } from 'hono/serve-static';
-import { RytestackConfig } from '@rytestack/core';
+import { Context, Hono, MiddlewareHandler } from 'hono';
+import {
+    RytestackConfig,
+    RouteManifest,
+    HttpMethod,
+    toHonoPaths,
+    exportNameToHttpMethod,
+    getAllowHeader
+} from '@rytestack/core';
 import { createHonoAdapter } from '../api/honoAdapters';
+import { RyteApiHandler } from '../api/types';
 import { ApiModule } from '../types';
 
 /**
@@ -27,12 +34,28 @@ export interface CreateServerOptions {
     /**
      * Map of API routes
      */
-    apiRoutes: Record<string, ApiModule>;
+    apiRoutes?: Record<string, ApiModule>;
+
+    /**
+     * Route manifest, API routes in it are loaded lazily from `modules`
+     */
+    manifest?: RouteManifest;
+
+    /**
+     * Lazy module loaders keyed by manifest path (the `modules` export of the virtual manifest module)
+     */
+    modules?: Record<string, () => Promise<any>>;
 
     /**
      * Handler for page requests
      */
     pageHandler: (c: any) => Promise<Response>;
+
+    /**
+     * Static file middleware of the runtime (e.g. `serveStatic` of `@hono/node-server`),
+     * serves the public directory at `/public/*` when given
+     */
+    serveStatic?: (options: { root: string }) => MiddlewareHandler;
 }
 
 /**
@@ -44,41 +67,114 @@ export interface CreateServerOptions {
 export function createServer({
                                  config,
                                  rootDir,
-                                 apiRoutes,
-                                 pageHandler
+                                 apiRoutes = {},
+                                 manifest,
+                                 modules = {},
+                                 pageHandler,
+                                 serveStatic
                              }: CreateServerOptions): Hono {
     // Create Hono app
     const app = new Hono();
 
     // Serve static files from public directory
-    const publicDir = path.join(rootDir, config.publicDir);
-    app.use('/public/*', serveStatic({ root: publicDir }));
+    if (serveStatic) {
+        const publicDir = path.join(rootDir, config.publicDir);
+        app.use('/public/*', serveStatic({ root: publicDir }));
+    }
 
     // Register API routes
     for (const [routePath, routeModule] of Object.entries(apiRoutes)) {
-        // Extract HTTP methods from the module
-        for (const [method, handler] of Object.entries(routeModule)) {
-            if (handler && typeof handler === 'function') {
-                const httpMethod = method.toLowerCase();
-
-                // Register the route with Hono
-                if (httpMethod === 'get') {
-                    app.get(routePath, createHonoAdapter(handler));
-                } else if (httpMethod === 'post') {
-                    app.post(routePath, createHonoAdapter(handler));
-                } else if (httpMethod === 'put') {
-                    app.put(routePath, createHonoAdapter(handler));
-                } else if (httpMethod === 'delete') {
-                    app.delete(routePath, createHonoAdapter(handler));
-                } else if (httpMethod === 'patch') {
-                    app.patch(routePath, createHonoAdapter(handler));
-                }
-            }
+        const handlers = getMethodHandlers(routeModule);
+        registerApiRoute(app, routePath, Object.keys(handlers) as HttpMethod[], async () => handlers);
+    }
+
+    // Register API routes from the manifest, loading each module on its first request
+    for (const route of manifest?.apiRoutes || []) {
+        const loadModule = modules[route.handler];
+
+        if (!loadModule) {
+            console.warn(`Module not found for API route: ${route.path}`);
+            continue;
         }
+
+        let handlers: Promise<Partial<Record<HttpMethod, RyteApiHandler>>> | undefined;
+        registerApiRoute(app, route.path, route.methods, () => {
+            // A failed load is tried again on the next request
+            handlers ??= loadModule().then(getMethodHandlers).catch(error => {
+                handlers = undefined;
+                throw error;
+            });
+            return handlers;
+        });
     }
 
-    // Handle all other requests as page requests
+    // Handle all other requests as page requests, posts go to page actions
     app.get('*', pageHandler);
+    app.post('*', pageHandler);
 
     return app;
+}
+
+/**
+ * Registers the handlers of an API route and rejects other methods with 405
+ *
+ * @param app Hono app
+ * @param routePath Route path as returned by filePathToRoutePath
+ * @param methods HTTP methods handled by the route
+ * @param getHandlers Returns the route's handlers keyed by HTTP method
+ */
+function registerApiRoute(
+    app: Hono,
+    routePath: string,
+    methods: HttpMethod[],
+    getHandlers: () => Promise<Partial<Record<HttpMethod, RyteApiHandler>>>
+): void {
+    const allow = getAllowHeader(methods);
+    const methodNotAllowed = (c: Context) => c.text('Method Not Allowed', 405, { Allow: allow });
+
+    // Optional catch-all routes map to more than one Hono pattern
+    for (const honoPath of toHonoPaths(routePath)) {
+        // Hono routes HEAD requests to GET handlers, so both are dispatched here
+        if (methods.includes('GET') || methods.includes('HEAD')) {
+            app.get(honoPath, async c => {
+                const handlers = await getHandlers();
+                const handler = c.req.method === 'HEAD' && handlers.HEAD ? handlers.HEAD : handlers.GET;
+
+                return handler ? createHonoAdapter(handler)(c) : methodNotAllowed(c);
+            });
+        }
+
+        for (const method of ['POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'] as const) {
+            if (methods.includes(method)) {
+                app.on(method, honoPath, async c => {
+                    const handler = (await getHandlers())[method];
+
+                    return handler ? createHonoAdapter(handler)(c) : methodNotAllowed(c);
+                });
+            }
+        }
+
+        // Reject methods the module doesn't export
+        app.all(honoPath, methodNotAllowed);
+    }
+}
+
+/**
+ * Collects the HTTP method handlers exported by an API module
+ *
+ * @param routeModule API route module
+ * @returns Handlers keyed by HTTP method
+ */
+function getMethodHandlers(routeModule: ApiModule): Partial<Record<HttpMethod, RyteApiHandler>> {
+    const handlers: Partial<Record<HttpMethod, RyteApiHandler>> = {};
+
+    for (const [exportName, handler] of Object.entries(routeModule)) {
+        const method = exportNameToHttpMethod(exportName);
+
+        if (method && typeof handler === 'function') {
+            handlers[method] = handler as RyteApiHandler;
+        }
+    }
+
+    return handlers;
 }
\ No newline at end of file
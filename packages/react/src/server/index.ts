@@ -4,5 +4,9 @@
  * This file exports utilities for server-side rendering.
  */
 export * from './renderToString';
+export * from './renderToStream';
 export * from './createServer';
+export * from './createPageHandler';
+export * from './isr';
+export * from './pageResponse';
 export * from './types';
\ No newline at end of file
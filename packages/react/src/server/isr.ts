@@ -0,0 +1,194 @@
+/**
+ * @fileoverview Incremental static regeneration
+ *
+ * Serves cached renders of pages with `revalidate` in their config and
+ * re-renders them in the background once they expire.
+ */
+import { Context } from 'hono';
+import { StatusCode } from 'hono/utils/http-status';
+import { RenderCacheEntry, RenderCacheStore, RytestackConfig, createMemoryCacheStore } from '@rytestack/core';
+
+/**
+ * Header telling whether a page was served from the render cache
+ * (`HIT`, `STALE` or `MISS`)
+ */
+export const RENDER_CACHE_HEADER = 'X-Rytestack-Cache';
+
+/**
+ * Rendered page
+ */
+export interface RenderedPage {
+    /**
+     * HTML document
+     */
+    html: string;
+
+    /**
+     * Response status
+     */
+    status: number;
+
+    /**
+     * Headers set by the page, sent with every response of a cached render
+     */
+    headers?: Record<string, string>;
+
+    /**
+     * Whether the page set cookies, such renders belong to one visitor and aren't cached
+     */
+    setsCookies?: boolean;
+}
+
+/**
+ * Default in-memory stores, one per configuration
+ */
+const defaultStores = new WeakMap<RytestackConfig, RenderCacheStore>();
+
+/**
+ * Stores of the page handlers created in this process, cleared by revalidatePath
+ */
+const activeStores = new Set<RenderCacheStore>();
+
+/**
+ * Page renders running in the background, keyed by URL path
+ */
+const pendingRenders = new Map<string, Promise<void>>();
+
+/**
+ * Gets the render cache store of a configuration
+ *
+ * Uses `config.isr.store`, or an in-memory store shared by everything
+ * using the same configuration.
+ *
+ * @param config Rytestack configuration
+ * @returns Render cache store
+ */
+export function getRenderCacheStore(config: RytestackConfig): RenderCacheStore {
+    let store = config.isr?.store || defaultStores.get(config);
+
+    if (!store) {
+        store = createMemoryCacheStore();
+        defaultStores.set(config, store);
+    }
+
+    activeStores.add(store);
+
+    return store;
+}
+
+/**
+ * Removes a page from the render cache, it's rendered again on the next request
+ *
+ * @param path URL path of the page
+ *
+ * @example
+ * ```typescript
+ * // api/revalidate.ts
+ * export const POST: RyteApiHandler = async (req, res) => {
+ *     await revalidatePath(`/blog/${req.body.slug}`);
+ *     res.json({ revalidated: true });
+ * };
+ * ```
+ */
+export async function revalidatePath(path: string): Promise<void> {
+    await Promise.all([...activeStores].map(store => store.delete(path)));
+}
+
+/**
+ * Runs work after the response is sent, keeping edge runtimes alive until it's done
+ */
+function runInBackground(c: Context, task: Promise<void>): void {
+    try {
+        c.executionCtx.waitUntil(task);
+    } catch (error) {
+        // Runtimes without an execution context (e.g. Node.js) keep running anyway
+    }
+}
+
+/**
+ * Creates the response for a rendered page
+ */
+function createPageResponse(
+    c: Context,
+    page: RenderedPage,
+    revalidate: number,
+    cacheStatus: string,
+    personalize: (html: string) => string = html => html
+): Response | Promise<Response> {
+    return c.html(personalize(page.html), page.status as StatusCode, {
+        ...page.headers,
+        'Cache-Control': `s-maxage=${revalidate}, stale-while-revalidate`,
+        [RENDER_CACHE_HEADER]: cacheStatus
+    });
+}
+
+/**
+ * Serves a page from the render cache with stale-while-revalidate semantics
+ *
+ * Fresh renders are served from the cache. Expired renders are still
+ * served, while the page is rendered again in the background. Pages
+ * missing from the cache are rendered and cached unless the render fails
+ * or sets cookies. The headers set by the page are cached with it.
+ *
+ * @param options Cached page options
+ * @returns Response
+ */
+export async function serveCachedPage({ c, key, revalidate, store, render, personalize }: {
+    c: Context;
+    key: string;
+    revalidate: number;
+    store: RenderCacheStore;
+    render: () => Promise<RenderedPage>;
+
+    /**
+     * Adds what belongs to the current visitor (e.g. the CSRF token) to the
+     * HTML of every response, renders are shared between visitors
+     */
+    personalize?: (html: string) => string;
+}): Promise<Response> {
+    const renderAndStore = async (): Promise<RenderedPage> => {
+        const page = await render();
+
+        // Error pages aren't cached, so the next request tries again
+        if (page.status === 200 && !page.setsCookies) {
+            const now = Date.now();
+            const entry: RenderCacheEntry = {
+                html: page.html,
+                status: page.status,
+                headers: page.headers,
+                createdAt: now,
+                expiresAt: now + revalidate * 1000
+            };
+
+            await store.set(key, entry);
+        }
+
+        return page;
+    };
+
+    const entry = await store.get(key);
+
+    if (!entry) {
+        return createPageResponse(c, await renderAndStore(), revalidate, 'MISS', personalize);
+    }
+
+    if (entry.expiresAt > Date.now()) {
+        return createPageResponse(c, entry, revalidate, 'HIT', personalize);
+    }
+
+    // Only one background render per page at a time
+    if (!pendingRenders.has(key)) {
+        const task = renderAndStore()
+            .then(() => undefined)
+            .catch(error => {
+                // The stale render keeps being served until a render succeeds
+                console.error(`Error regenerating ${key}:`, error);
+            })
+            .finally(() => pendingRenders.delete(key));
+
+        pendingRenders.set(key, task);
+        runInBackground(c, task);
+    }
+
+    return createPageResponse(c, entry, revalidate, 'STALE', personalize);
+}
@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Page response recording
+ *
+ * Collects what pages and their loaders set on their response during
+ * server rendering, applied to the Hono response afterwards.
+ */
+import { Context } from 'hono';
+import { setCookie } from 'hono/cookie';
+import type { CookieOptions } from 'hono/utils/cookie';
+import { PageResponse } from '../data/responses';
+
+/**
+ * Page response keeping what was set
+ */
+export interface RecordedPageResponse extends PageResponse {
+    /**
+     * Status set by the page, if any
+     */
+    status?: number;
+
+    /**
+     * Headers set by the page
+     */
+    headers: Record<string, string>;
+
+    /**
+     * Cookies set by the page, in order
+     */
+    cookies: { name: string; value: string; options?: CookieOptions }[];
+}
+
+/**
+ * Creates a page response recording what's set on it
+ *
+ * @returns Page response
+ */
+export function createPageResponse(): RecordedPageResponse {
+    const response: RecordedPageResponse = {
+        headers: {},
+        cookies: [],
+        setStatus(status) {
+            response.status = status;
+        },
+        setHeader(name, value) {
+            response.headers[name] = value;
+        },
+        setCookie(name, value, options) {
+            response.cookies.push({ name, value, options });
+        }
+    };
+
+    return response;
+}
+
+/**
+ * Applies the headers and cookies of a page response to a Hono context,
+ * so they're part of the response created from it
+ *
+ * @param c Hono context
+ * @param response Page response
+ */
+export function applyPageResponse(c: Context, response: RecordedPageResponse): void {
+    for (const [name, value] of Object.entries(response.headers)) {
+        c.header(name, value);
+    }
+
+    for (const { name, value, options } of response.cookies) {
+        setCookie(c, name, value, options);
+    }
+}
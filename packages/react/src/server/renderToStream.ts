@@ -0,0 +1,222 @@
+/**
+ * @fileoverview Streaming server-side rendering utility
+ *
+ * Renders a React component to a stream of HTML, flushing the shell as
+ * soon as it's ready and Suspense boundaries as they resolve.
+ */
+import React from 'react';
+import { Writable } from 'stream';
+import * as ReactDOMServer from 'react-dom/server';
+import { DehydratedState, QueryClient, dehydrate } from '@tanstack/react-query';
+import { HelmetContext, createServerApp, renderHeadTags } from './serverApp';
+import { ServerRenderContext } from './types';
+
+/**
+ * Script react-dom writes right after the shell, replaced by the `shellEnd` option
+ */
+const SHELL_END_SCRIPT = '/*rytestack:shell-end*/';
+const SHELL_END_MARKER = `<script>${SHELL_END_SCRIPT}</script>`;
+
+/**
+ * Options for streaming server-side rendering
+ */
+export interface RenderToStreamOptions {
+    /**
+     * React component to render
+     */
+    App: React.ComponentType<any>;
+
+    /**
+     * Server render context
+     */
+    context: ServerRenderContext;
+
+    /**
+     * Page props
+     */
+    pageProps?: any;
+
+    /**
+     * HTML written between the shell and the Suspense boundaries streamed
+     * after it, e.g. to close the element the app is rendered into
+     */
+    shellEnd?: string;
+
+    /**
+     * Called with errors thrown while rendering, including those of
+     * Suspense boundaries streamed after the shell
+     */
+    onError?: (error: unknown) => void;
+}
+
+/**
+ * Streaming server render result
+ */
+export interface StreamRenderResult {
+    /**
+     * HTML of the app, starting with the shell
+     */
+    stream: ReadableStream<Uint8Array>;
+
+    /**
+     * Resolves once every Suspense boundary has rendered
+     */
+    allReady: Promise<void>;
+
+    /**
+     * Head tags collected by react-helmet-async while rendering the shell
+     */
+    metaTags: string;
+
+    /**
+     * Initial page props
+     */
+    pageProps: any;
+
+    /**
+     * Dehydrates the query state, complete once the stream has ended
+     *
+     * @returns Dehydrated state for client-side hydration
+     */
+    getDehydratedState: () => DehydratedState;
+}
+
+/**
+ * Replaces the script marking the end of the shell
+ */
+function replaceShellEnd(replacement: string): TransformStream<Uint8Array, Uint8Array> {
+    const decoder = new TextDecoder();
+    const encoder = new TextEncoder();
+    let buffered = '';
+    let replaced = false;
+
+    return new TransformStream({
+        transform(chunk, controller) {
+            if (replaced) {
+                controller.enqueue(chunk);
+                return;
+            }
+
+            buffered += decoder.decode(chunk, { stream: true });
+
+            const index = buffered.indexOf(SHELL_END_MARKER);
+
+            if (index !== -1) {
+                controller.enqueue(encoder.encode(buffered.slice(0, index) + replacement + buffered.slice(index + SHELL_END_MARKER.length)));
+                replaced = true;
+                return;
+            }
+
+            // Hold back what could be the start of a marker split across chunks
+            let cut = buffered.length - (SHELL_END_MARKER.length - 1);
+
+            // Keep surrogate pairs together
+            if (cut > 0 && /[\uD800-\uDBFF]/.test(buffered[cut - 1])) {
+                cut--;
+            }
+
+            if (cut > 0) {
+                controller.enqueue(encoder.encode(buffered.slice(0, cut)));
+                buffered = buffered.slice(cut);
+            }
+        },
+        flush(controller) {
+            const rest = buffered + decoder.decode();
+
+            if (!replaced && rest) {
+                controller.enqueue(encoder.encode(rest));
+            }
+        }
+    });
+}
+
+/**
+ * Renders with the web streams renderer of react-dom (browsers, Workers, Deno)
+ */
+async function renderWebStream(element: React.ReactElement, onError: (error: unknown) => void) {
+    const stream = await ReactDOMServer.renderToReadableStream(element, { onError, bootstrapScriptContent: SHELL_END_SCRIPT });
+
+    return { stream: stream as ReadableStream<Uint8Array>, allReady: stream.allReady };
+}
+
+/**
+ * Renders with the Node.js renderer of react-dom, exposed as a web stream
+ */
+function renderNodeStream(element: React.ReactElement, onError: (error: unknown) => void) {
+    return new Promise<{ stream: ReadableStream<Uint8Array>; allReady: Promise<void> }>((resolve, reject) => {
+        const encoder = new TextEncoder();
+        let controller!: ReadableStreamDefaultController<Uint8Array>;
+        let onAllReady!: () => void;
+
+        const stream = new ReadableStream<Uint8Array>({ start: streamController => { controller = streamController; } });
+        const allReady = new Promise<void>(resolve => { onAllReady = resolve; });
+
+        const destination = new Writable({
+            write(chunk: Uint8Array | string, _encoding, callback) {
+                controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : new Uint8Array(chunk));
+                callback();
+            },
+            final(callback) {
+                controller.close();
+                callback();
+            },
+            destroy(error, callback) {
+                if (error) {
+                    controller.error(error);
+                }
+
+                callback(error);
+            }
+        });
+
+        const { pipe } = ReactDOMServer.renderToPipeableStream(element, {
+            onShellReady() {
+                pipe(destination);
+                resolve({ stream, allReady });
+            },
+            onShellError: reject,
+            onAllReady,
+            onError,
+            bootstrapScriptContent: SHELL_END_SCRIPT
+        });
+    });
+}
+
+/**
+ * Renders a React component to a stream of HTML with state hydration
+ *
+ * Resolves once the shell, everything outside of Suspense boundaries, has
+ * rendered. Suspended content follows in the stream as it resolves, which
+ * also fills the query client, so the dehydrated state is only complete
+ * once the stream has ended. Suspended content is written after `shellEnd`,
+ * React moves it into place. Uses `renderToReadableStream` where react-dom
+ * provides it (Workers) and `renderToPipeableStream` on Node.js.
+ *
+ * @param options Rendering options
+ * @returns Streaming server render result
+ * @throws Error if the shell fails to render
+ */
+export async function renderToStream({
+    App,
+    context,
+    pageProps = {},
+    shellEnd = '',
+    onError = error => console.error('Error streaming server render:', error)
+}: RenderToStreamOptions): Promise<StreamRenderResult> {
+    const queryClient = context.queryClient || new QueryClient();
+    const helmetContext: HelmetContext = {};
+    const element = createServerApp({ App, url: context.url, queryClient, helmetContext, response: context.response, pageProps });
+
+    const { stream, allReady } = typeof ReactDOMServer.renderToReadableStream === 'function'
+        ? await renderWebStream(element, onError)
+        : await renderNodeStream(element, onError);
+
+    // Helmet elements of the shell have rendered by now
+    return {
+        stream: stream.pipeThrough(replaceShellEnd(shellEnd)),
+        allReady,
+        metaTags: renderHeadTags(helmetContext),
+        pageProps,
+        getDehydratedState: () => dehydrate(queryClient)
+    };
+}
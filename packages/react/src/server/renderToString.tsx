@@ -5,9 +5,8 @@
  */
 import React from 'react';
 import { renderToString as reactRenderToString } from 'react-dom/server';
-import { StaticRouter } from 'react-router-dom/server';
-import { QueryClient, QueryClientProvider, dehydrate } from '@tanstack/react-query';
-import { HelmetProvider, HelmetServerState } from 'react-helmet-async';
+import { QueryClient, dehydrate } from '@tanstack/react-query';
+import { HelmetContext, createServerApp, renderHeadTags } from './serverApp';
 import { ServerRenderContext, ServerRenderResult } from './types';
 
 /**
@@ -41,45 +40,30 @@ export async function renderToString({
                                          context,
                                          pageProps = {}
                                      }: RenderToStringOptions): Promise<ServerRenderResult> {
-    // Create QueryClient for this request
-    const queryClient = new QueryClient();
+    // Use the QueryClient of this request, which may hold prefetched data
+    const queryClient = context.queryClient || new QueryClient();
 
     // Create helmet context for collecting head tags
-    const helmetContext: { helmet?: HelmetServerState } = {};
+    const helmetContext: HelmetContext = {};
 
     // Render the app to string
-    const html = reactRenderToString(
-        <HelmetProvider context={helmetContext}>
-            <QueryClientProvider client={queryClient}>
-                <StaticRouter location={context.url}>
-                    <App {...pageProps} />
-                </StaticRouter>
-            </QueryClientProvider>
-        </HelmetProvider>
-    );
+    const html = reactRenderToString(createServerApp({ App, url: context.url, queryClient, helmetContext, response: context.response, pageProps }));
 
     // Get dehydrated state
     const dehydratedState = dehydrate(queryClient);
 
-    // Get helmet data
-    const { helmet } = helmetContext;
-
     // Prepare meta tags
-    const metaTags = helmet ? `
-    ${helmet.title.toString()}
-    ${helmet.meta.toString()}
-    ${helmet.link.toString()}
-    ${helmet.script.toString()}
-  ` : '';
+    const metaTags = renderHeadTags(helmetContext);
 
     // Return result
     return {
         html,
         dehydratedState,
         pageProps,
-        statusCode: 200,
+        statusCode: context.response?.status ?? 200,
         headers: {
-            'Content-Type': 'text/html'
+            'Content-Type': 'text/html',
+            ...context.response?.headers
         },
         metaTags
     };
@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Server app shell
+ *
+ * Providers shared by the string and streaming server renderers.
+ */
+import React from 'react';
+import { StaticRouter } from 'react-router-dom/server';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { HelmetProvider, HelmetServerState } from 'react-helmet-async';
+import { PageResponse, PageResponseContext } from '../data/responses';
+
+/**
+ * Context react-helmet-async fills with the head tags of a render
+ */
+export type HelmetContext = { helmet?: HelmetServerState };
+
+/**
+ * Wraps an app in the router, query, head and response providers of a server render
+ *
+ * @param props App, providers state and page props
+ * @returns Element to render
+ */
+export function createServerApp({ App, url, queryClient, helmetContext, response, pageProps }: {
+    App: React.ComponentType<any>;
+    url: string;
+    queryClient: QueryClient;
+    helmetContext: HelmetContext;
+    response?: PageResponse;
+    pageProps: any;
+}): React.ReactElement {
+    const app = (
+        <HelmetProvider context={helmetContext}>
+            <QueryClientProvider client={queryClient}>
+                <StaticRouter location={url}>
+                    <App {...pageProps} />
+                </StaticRouter>
+            </QueryClientProvider>
+        </HelmetProvider>
+    );
+
+    return response ? <PageResponseContext.Provider value={response}>{app}</PageResponseContext.Provider> : app;
+}
+
+/**
+ * Renders the head tags collected by react-helmet-async
+ *
+ * @param helmetContext Helmet context of a render
+ * @returns HTML of the head tags
+ */
+export function renderHeadTags({ helmet }: HelmetContext): string {
+    return helmet ? `
+    ${helmet.title.toString()}
+    ${helmet.meta.toString()}
+    ${helmet.link.toString()}
+    ${helmet.script.toString()}
+  ` : '';
+}
@@ -6,6 +6,7 @@
 import { RytestackConfig } from '@rytestack/core';
 import { QueryClient } from '@tanstack/react-query';
 import { Request, Response } from 'hono';
+import { RecordedPageResponse } from './pageResponse';
 
 /**
  * Context for server-side rendering
@@ -45,6 +46,11 @@ export interface ServerRenderContext {
      * QueryClient instance
      */
     queryClient: QueryClient;
+
+    /**
+     * Response the page sets its status, headers and cookies on (see `useResponse`)
+     */
+    response?: RecordedPageResponse;
 }
 
 /**
@@ -67,12 +73,17 @@ export interface ServerRenderResult {
     pageProps: any;
 
     /**
-     * HTTP status code
+     * HTTP status code, 200 unless the page set one
      */
     statusCode: number;
 
     /**
-     * HTTP headers
+     * HTTP headers, including those set by the page
      */
     headers: Record<string, string>;
+
+    /**
+     * Head tags collected by react-helmet-async
+     */
+    metaTags: string;
 }
\ No newline at end of file
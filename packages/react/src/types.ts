@@ -2,6 +2,7 @@
  * @fileoverview Type definitions for Rytestack React adapter
  */
 import { ReactNode } from 'react';
+import { GetInitialData, PageAction } from './data';
 
 /**
  * Page props with dehydrated state
@@ -35,9 +36,14 @@ export interface PageComponent {
     layout?: (props: { children: ReactNode }) => ReactNode;
 
     /**
-     * Get initial data for server-side rendering
+     * Loads the data of the page on the server, passed to it as `initialData`
      */
-    getInitialData?: (context: any) => Promise<any>;
+    getInitialData?: GetInitialData;
+
+    /**
+     * Handles the forms posted to the page on the server, see `<Form>`
+     */
+    action?: PageAction;
 }
 
 /**
@@ -45,9 +51,11 @@ export interface PageComponent {
  */
 export interface ApiModule {
     get?: Function;
+    head?: Function;
     post?: Function;
     put?: Function;
     delete?: Function;
     patch?: Function;
+    options?: Function;
     [key: string]: Function | undefined;
 }
\ No newline at end of file
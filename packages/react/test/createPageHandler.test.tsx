@@ -0,0 +1,213 @@
+import React, { Suspense } from 'react';
+import { Context, Hono } from 'hono';
+import { describe, expect, it, vi } from 'vitest';
+import { DEFAULT_CONFIG, RouteManifest, RytestackConfig } from '@rytestack/core';
+import { DefaultDocument } from '../src/components/Document';
+import { ActionContext, useActionData } from '../src/data/actions';
+import { PageResponse, notFound, redirect, useResponse } from '../src/data/responses';
+import { PageComponent } from '../src/types';
+import { createPageHandler } from '../src/server/createPageHandler';
+
+/**
+ * Options for the test app
+ */
+interface TestAppOptions {
+    /**
+     * Pages keyed by route path
+     */
+    pages: Record<string, PageComponent>;
+
+    /**
+     * Configuration, the default one when missing
+     */
+    config?: RytestackConfig;
+
+    /**
+     * Loader of the `_document` module
+     */
+    loadDocument?: () => Promise<any>;
+
+    /**
+     * Whether to run a stand-in for the CSRF protection middleware of @rytestack/security
+     */
+    csrf?: boolean;
+}
+
+/**
+ * Creates an app serving pages through the page handler
+ */
+function createApp({ pages, config = DEFAULT_CONFIG, loadDocument, csrf = false }: TestAppOptions): Hono {
+    const modules: Record<string, () => Promise<any>> = {};
+    const manifest: RouteManifest = {
+        version: 1,
+        routes: Object.entries(pages).map(([path, Page]) => {
+            const component = `pages${path === '/' ? '/index' : path}.tsx`;
+
+            modules[component] = async () => ({ default: Page });
+
+            return { path, params: {}, component, layouts: [], index: path === '/', meta: {}, config: {} };
+        }),
+        apiRoutes: [],
+        middleware: [],
+        errorPages: []
+    };
+
+    if (loadDocument) {
+        manifest.document = 'pages/_document.tsx';
+        modules[manifest.document] = loadDocument;
+    }
+
+    const app = new Hono();
+    const pageHandler = createPageHandler({ config, manifest, modules });
+
+    if (csrf) {
+        app.use('*', async (c: Context, next) => {
+            c.set('csrfToken', () => 'token');
+            await next();
+        });
+    }
+
+    app.get('*', pageHandler);
+    app.post('*', pageHandler);
+
+    return app;
+}
+
+/**
+ * Posts a form to a page
+ */
+const post = (app: Hono, path: string, form: Record<string, string>) => app.request(path, {
+    method: 'POST',
+    body: new URLSearchParams(form)
+});
+
+/**
+ * Creates a page whose action signs in and redirects, or returns the name when there's no password
+ */
+function createSignInPage(): PageComponent {
+    const SignIn = () => <p>{useActionData<{ name: string }>()?.name ?? 'Sign in'}</p>;
+
+    SignIn.action = async ({ formData, response }: ActionContext) => {
+        if (!formData.get('password')) {
+            return { name: `Welcome ${formData.get('name')}` };
+        }
+
+        response.setCookie('session', 'abc');
+        redirect('/dashboard');
+    };
+
+    return SignIn;
+}
+
+describe('createPageHandler', () => {
+    it('loads the document again after a failed load', async () => {
+        const loadDocument = vi.fn()
+            .mockRejectedValueOnce(new Error('Failed to fetch dynamically imported module'))
+            .mockResolvedValue({ default: DefaultDocument });
+        const app = createApp({ pages: { '/': () => <h1>Home</h1> }, loadDocument });
+
+        expect((await app.request('/')).status).toBe(500);
+
+        const response = await app.request('/');
+
+        expect(response.status).toBe(200);
+        expect(await response.text()).toContain('<h1>Home</h1>');
+    });
+
+    describe('actions', () => {
+        it('fails posts when CSRF protection is enabled but its middleware isn\'t running', async () => {
+            const app = createApp({ pages: { '/signin': createSignInPage() } });
+
+            expect((await post(app, '/signin', { name: 'Ada' })).status).toBe(500);
+        });
+
+        it('answers redirects of ?_data posts with JSON, keeping the cookies set before', async () => {
+            const app = createApp({ pages: { '/signin': createSignInPage() }, csrf: true });
+            const response = await post(app, '/signin?_data', { name: 'Ada', password: 'secret' });
+
+            expect(await response.json()).toEqual({ redirect: '/dashboard' });
+            expect(response.headers.get('Set-Cookie')).toContain('session=abc');
+        });
+
+        it('redirects other posts, keeping the cookies set before', async () => {
+            const app = createApp({ pages: { '/signin': createSignInPage() }, csrf: true });
+            const response = await post(app, '/signin', { name: 'Ada', password: 'secret' });
+
+            expect(response.status).toBe(302);
+            expect(response.headers.get('Location')).toBe('/dashboard');
+            expect(response.headers.get('Set-Cookie')).toContain('session=abc');
+        });
+
+        it('renders the page again with the result of posts without ?_data', async () => {
+            const app = createApp({ pages: { '/signin': createSignInPage() }, csrf: true });
+            const response = await post(app, '/signin', { name: 'Ada' });
+
+            expect(response.status).toBe(200);
+            expect(await response.text()).toContain('<p>Welcome Ada</p>');
+        });
+    });
+
+    describe('redirects of streamed pages before the shell is sent', () => {
+        /**
+         * Sets a cookie and redirects to the sign in page
+         */
+        const redirectToSignIn = (response: PageResponse) => {
+            response.setCookie('returnTo', '/account');
+            redirect('/signin', 307);
+        };
+
+        /**
+         * Requests a page and checks it redirected with its cookie
+         */
+        const expectRedirect = async (Page: PageComponent) => {
+            const response = await createApp({ pages: { '/account': Page } }).request('/account');
+
+            expect(response.status).toBe(307);
+            expect(response.headers.get('Location')).toBe('/signin');
+            expect(response.headers.get('Set-Cookie')).toContain('returnTo=%2Faccount');
+        };
+
+        it('redirects from loaders', async () => {
+            const Account = () => <p>Account</p>;
+
+            Account.getInitialData = async ({ response }: { response: PageResponse }) => redirectToSignIn(response);
+
+            await expectRedirect(Account);
+        });
+
+        it('redirects from pages', async () => {
+            await expectRedirect(() => {
+                redirectToSignIn(useResponse());
+                return <p>Account</p>;
+            });
+        });
+
+        it('redirects from inside Suspense boundaries', async () => {
+            const Guard = () => {
+                redirectToSignIn(useResponse());
+                return null;
+            };
+
+            await expectRedirect(() => (
+                <Suspense fallback={<p>Loading</p>}>
+                    <Guard />
+                </Suspense>
+            ));
+        });
+
+        it('renders the not found page for notFound() inside Suspense boundaries', async () => {
+            const Missing = () => notFound();
+            const app = createApp({
+                pages: {
+                    '/account': () => (
+                        <Suspense fallback={<p>Loading</p>}>
+                            <Missing />
+                        </Suspense>
+                    )
+                }
+            });
+
+            expect((await app.request('/account')).status).toBe(404);
+        });
+    });
+});
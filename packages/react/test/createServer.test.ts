@@ -0,0 +1,32 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DEFAULT_CONFIG, RouteManifest } from '@rytestack/core';
+import { createServer } from '../src/server/createServer';
+
+describe('createServer', () => {
+    it('loads an API module again after a failed load', async () => {
+        const manifest: RouteManifest = {
+            version: 1,
+            routes: [],
+            apiRoutes: [{ path: '/api/users', params: {}, methods: ['GET'], handler: 'api/users.ts' }],
+            middleware: [],
+            errorPages: []
+        };
+        const loadModule = vi.fn()
+            .mockRejectedValueOnce(new Error('Failed to fetch dynamically imported module'))
+            .mockResolvedValue({ GET: (_req: unknown, res: { json: (data: unknown) => void }) => res.json({ users: [] }) });
+        const app = createServer({
+            config: DEFAULT_CONFIG,
+            rootDir: '/app',
+            manifest,
+            modules: { 'api/users.ts': loadModule },
+            pageHandler: async () => new Response('page')
+        });
+
+        expect((await app.request('/api/users')).status).toBe(500);
+
+        const response = await app.request('/api/users');
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ users: [] });
+    });
+});
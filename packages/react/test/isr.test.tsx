@@ -0,0 +1,151 @@
+import React from 'react';
+import { Hono } from 'hono';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_CONFIG, RouteManifest, RytestackConfig, createMemoryCacheStore } from '@rytestack/core';
+import { PageComponent, PageProps } from '../src/types';
+import { createPageHandler } from '../src/server/createPageHandler';
+import { RENDER_CACHE_HEADER, RenderedPage, getRenderCacheStore, revalidatePath, serveCachedPage } from '../src/server/isr';
+
+/**
+ * Creates a production config with its own render cache store
+ */
+function createConfig(): RytestackConfig {
+    return { ...DEFAULT_CONFIG, mode: 'production', isr: { ...DEFAULT_CONFIG.isr, store: createMemoryCacheStore() } };
+}
+
+/**
+ * Creates an app serving a page with the render cache
+ */
+function createCachedApp(render: () => Promise<RenderedPage>) {
+    const app = new Hono();
+    const store = getRenderCacheStore(createConfig());
+
+    app.get('*', c => serveCachedPage({ c, key: c.req.path, revalidate: 60, store, render }));
+
+    return app;
+}
+
+/**
+ * Creates an app rendering a single page with `revalidate` in production
+ */
+function createPageApp(Page: PageComponent) {
+    const config = createConfig();
+    const manifest: RouteManifest = {
+        version: 1,
+        routes: [{
+            path: '/search',
+            params: {},
+            component: 'pages/search.tsx',
+            layouts: [],
+            index: false,
+            meta: {},
+            config: { revalidate: 60 }
+        }],
+        apiRoutes: [],
+        middleware: [],
+        errorPages: []
+    };
+    const app = new Hono();
+
+    app.get('*', createPageHandler({ config, manifest, modules: { 'pages/search.tsx': async () => ({ default: Page }) } }));
+
+    return app;
+}
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('serveCachedPage', () => {
+    it('renders pages missing from the cache and serves them from it afterwards', async () => {
+        const render = vi.fn(async () => ({ html: '<p>page</p>', status: 200 }));
+        const app = createCachedApp(render);
+
+        const miss = await app.request('/page');
+        const hit = await app.request('/page');
+
+        expect(miss.headers.get(RENDER_CACHE_HEADER)).toBe('MISS');
+        expect(hit.headers.get(RENDER_CACHE_HEADER)).toBe('HIT');
+        expect(await hit.text()).toBe('<p>page</p>');
+        expect(render).toHaveBeenCalledTimes(1);
+    });
+
+    it('serves expired renders while rendering the page again', async () => {
+        let version = 0;
+        const render = vi.fn(async () => ({ html: `<p>v${++version}</p>`, status: 200 }));
+        const app = createCachedApp(render);
+
+        vi.useFakeTimers({ toFake: ['Date'] });
+        await app.request('/page');
+        vi.setSystemTime(Date.now() + 61_000);
+
+        const stale = await app.request('/page');
+
+        expect(stale.headers.get(RENDER_CACHE_HEADER)).toBe('STALE');
+        expect(await stale.text()).toBe('<p>v1</p>');
+
+        await vi.waitFor(() => expect(render).toHaveBeenCalledTimes(2));
+        await new Promise(resolve => setTimeout(resolve));
+
+        const fresh = await app.request('/page');
+
+        expect(fresh.headers.get(RENDER_CACHE_HEADER)).toBe('HIT');
+        expect(await fresh.text()).toBe('<p>v2</p>');
+    });
+
+    it("doesn't cache failed renders or renders setting cookies", async () => {
+        const pages = [{ html: 'error', status: 500 }, { html: 'session', status: 200, setsCookies: true }];
+        const render = vi.fn(async () => pages.shift() ?? { html: 'page', status: 200 });
+        const app = createCachedApp(render);
+
+        await app.request('/page');
+        await app.request('/page');
+
+        expect((await app.request('/page')).headers.get(RENDER_CACHE_HEADER)).toBe('MISS');
+        expect((await app.request('/page')).headers.get(RENDER_CACHE_HEADER)).toBe('HIT');
+    });
+
+    it('renders a page again once revalidatePath removes it', async () => {
+        const render = vi.fn(async () => ({ html: 'page', status: 200 }));
+        const app = createCachedApp(render);
+
+        await app.request('/blog');
+        await revalidatePath('/blog');
+
+        expect((await app.request('/blog')).headers.get(RENDER_CACHE_HEADER)).toBe('MISS');
+        expect(render).toHaveBeenCalledTimes(2);
+    });
+});
+
+describe('createPageHandler with revalidate', () => {
+    it('renders URLs with a query string for every request', async () => {
+        const Search = ({ initialData }: PageProps) => <p>results for {initialData.q}</p>;
+
+        Search.getInitialData = async ({ query }: { query: Record<string, string> }) => ({ q: query.q });
+
+        const app = createPageApp(Search);
+
+        await app.request('/search?q=a');
+
+        const response = await app.request('/search?q=b');
+
+        expect(response.headers.get(RENDER_CACHE_HEADER)).toBeNull();
+        expect(await response.text()).toContain('results for <!-- -->b');
+    });
+
+    it('gives loaders the request without the session headers of the visitor', async () => {
+        const Search = ({ initialData }: PageProps) => <p>user {initialData.user}</p>;
+
+        Search.getInitialData = async ({ request }: { request: Request }) => ({
+            user: request.headers.get('Cookie') ?? request.headers.get('Authorization') ?? 'anonymous'
+        });
+
+        const app = createPageApp(Search);
+        const first = await app.request('/search', { headers: { Cookie: 'session=alice', Authorization: 'Bearer alice' } });
+        const second = await app.request('/search', { headers: { Cookie: 'session=bob' } });
+
+        expect(await first.text()).toContain('user <!-- -->anonymous');
+        expect(second.headers.get(RENDER_CACHE_HEADER)).toBe('HIT');
+        expect(await second.text()).not.toContain('alice');
+    });
+});
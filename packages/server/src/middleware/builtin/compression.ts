@@ -62,6 +62,11 @@ export function compression(options: CompressionOptions = {}): Middleware {
                 return;
             }
 
+            // Streamed responses are sent as they're produced, buffering them would hold them back
+            if (c.res.headers.get('X-Accel-Buffering') === 'no') {
+                return;
+            }
+
             // Check content type
             const contentType = c.res.headers.get('Content-Type') || '';
             const shouldCompress = contentTypes.some(type => contentType.includes(type));
@@ -5,4 +5,5 @@
  */
 export * from './logger';
 export * from './cors';
-export * from './compression';
\ No newline at end of file
+export * from './compression';
+export * from './redirects';
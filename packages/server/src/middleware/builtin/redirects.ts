@@ -0,0 +1,128 @@
+/**
+ * @fileoverview Redirects middleware
+ *
+ * Middleware applying the redirects, rewrites and custom headers of the config.
+ */
+import { Context } from 'hono';
+import {
+    HeaderRule,
+    RedirectRule,
+    RewriteRule,
+    getRedirectStatus,
+    matchRouteRule,
+    resolveDestination
+} from '@rytestack/core';
+import { Middleware } from '../types';
+
+/**
+ * Options for the redirects middleware
+ */
+export interface RedirectsOptions {
+    /**
+     * Redirect rules, the first matching rule wins
+     */
+    redirects?: RedirectRule[];
+
+    /**
+     * Rewrite rules, the first matching rule wins
+     */
+    rewrites?: RewriteRule[];
+
+    /**
+     * Header rules, every matching rule applies
+     */
+    headers?: HeaderRule[];
+
+    /**
+     * Dispatches a rewritten request to the application
+     *
+     * Without it, only rewrites to external URLs are supported.
+     */
+    fetch?: (request: Request, c: Context) => Response | Promise<Response>;
+}
+
+/**
+ * Requests created by a rewrite, so rewrites don't apply to them again
+ */
+const rewrittenRequests = new WeakSet<Request>();
+
+/**
+ * Sets headers on a response, copying it first if its headers are immutable
+ */
+function setResponseHeaders(c: Context, headers: Array<{ key: string; value: string }>): void {
+    try {
+        headers.forEach(({ key, value }) => c.res.headers.set(key, value));
+    } catch (error) {
+        // Responses from fetch() have immutable headers
+        const response = new Response(c.res.body, c.res);
+        headers.forEach(({ key, value }) => response.headers.set(key, value));
+        c.res = response;
+    }
+}
+
+/**
+ * Create redirects middleware
+ *
+ * Headers apply to every matching response, including redirects. Then the
+ * first matching redirect answers the request, or the first matching
+ * rewrite serves another path without changing the URL.
+ *
+ * @param options Redirects options
+ * @returns Redirects middleware
+ */
+export function redirects(options: RedirectsOptions = {}): Middleware {
+    const { redirects = [], rewrites = [], headers = [], fetch: dispatch } = options;
+
+    return {
+        name: 'redirects',
+        handler: async (c, next) => {
+            const request = c.req.raw;
+            const search = new URL(request.url).search;
+
+            const responseHeaders = headers
+                .filter(rule => matchRouteRule(rule, request))
+                .flatMap(rule => rule.headers);
+
+            try {
+                for (const rule of redirects) {
+                    const params = matchRouteRule(rule, request);
+
+                    if (params) {
+                        c.res = c.redirect(resolveDestination(rule.destination, params, search), getRedirectStatus(rule));
+                        return;
+                    }
+                }
+
+                if (!rewrittenRequests.has(request)) {
+                    for (const rule of rewrites) {
+                        const params = matchRouteRule(rule, request);
+
+                        if (!params) {
+                            continue;
+                        }
+
+                        const destination = new URL(resolveDestination(rule.destination, params, search), request.url);
+                        const isExternal = destination.origin !== new URL(request.url).origin;
+
+                        if (!isExternal && !dispatch) {
+                            console.warn(`Rewrite of ${rule.source} skipped, no dispatcher is configured`);
+                            break;
+                        }
+
+                        const rewritten = new Request(destination, request);
+                        rewrittenRequests.add(rewritten);
+
+                        c.res = isExternal ? await fetch(rewritten) : await dispatch!(rewritten, c);
+                        return;
+                    }
+                }
+
+                await next();
+            } finally {
+                if (responseHeaders.length > 0) {
+                    setResponseHeaders(c, responseHeaders);
+                }
+            }
+        }
+    };
+}
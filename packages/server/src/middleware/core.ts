@@ -16,7 +16,8 @@ export function createMiddlewareContext(c: Context): MiddlewareContext {
     // Cast and initialize Rytestack-specific properties
     const context = c as MiddlewareContext;
 
-    context.rytestack = {
+    // Keep the state of an outer stack, so later stacks see its params and data
+    context.rytestack ??= {
         params: {},
         startTime: Date.now(),
         data: {}
@@ -3,11 +3,17 @@
  *
  * This file exports the middleware system components.
  */
+import type { Hono } from 'hono';
+import { RytestackConfig, getPluginMiddleware } from '@rytestack/core';
+import { Middleware } from './types';
+import { compression, cors, redirects } from './builtin';
+
 export * from './types';
 export * from './core';
+export * from './scoped';
 export * from './builtin';
 
-// Import security and logging features if available
+// Optional packages providing the middleware of the `security` and `logging` config
 let securityModule: any;
 let loggerModule: any;
 
@@ -23,17 +29,68 @@ try {
     // Optional dependency, ignore if not available
 }
 
+/**
+ * Checks whether a plugin is registered in the config
+ */
+function hasPlugin(config: RytestackConfig, name: string): boolean {
+    return (config.plugins || []).some(plugin => plugin.name === name);
+}
+
+/**
+ * Creates the security headers and CSRF protection middleware of the `security` config
+ *
+ * Used when `@rytestack/security` is installed but its plugin isn't
+ * registered, so the protections enabled by default don't depend on
+ * adding `securityPlugin()`. With the plugin, its middleware is used instead.
+ *
+ * @param config Rytestack configuration
+ * @returns Array of middleware
+ */
+export function createSecurityMiddleware(config: RytestackConfig): Middleware[] {
+    if (!securityModule?.securityPlugin || hasPlugin(config, 'rytestack:security')) {
+        return [];
+    }
+
+    return securityModule.securityPlugin().middleware({ config, mode: config.mode });
+}
+
+/**
+ * Creates the middleware applying the `redirects`, `rewrites` and `headers` of the config
+ *
+ * @param config Rytestack configuration
+ * @param app Application rewritten requests are dispatched to
+ * @returns Array of middleware, empty when the config has no rules
+ */
+export function createRouteRulesMiddleware(config: RytestackConfig, app: Hono): Middleware[] {
+    if (!config.redirects?.length && !config.rewrites?.length && !config.headers?.length) {
+        return [];
+    }
+
+    return [redirects({
+        redirects: config.redirects,
+        rewrites: config.rewrites,
+        headers: config.headers,
+        fetch: (request, c) => app.fetch(request, c.env)
+    })];
+}
+
 /**
  * Creates default middleware stack based on config
  *
+ * Request logging comes first, unless its plugin is registered, then the
+ * route rules (see createRouteRulesMiddleware()), so redirected requests
+ * skip everything else, and the middleware of the `security` config, also
+ * unless its plugin is registered. Middleware registered by the configured
+ * plugins and the built-in middleware follow.
+ *
  * @param config Rytestack configuration
+ * @param routeRules Middleware applying the route rules of the config
  * @returns Array of middleware
  */
-export function createDefaultMiddleware(config: any): any[] {
-    const middleware = [];
+export function createDefaultMiddleware(config: RytestackConfig, routeRules: Middleware[] = []): Middleware[] {
+    const middleware: Middleware[] = [];
 
-    // Add request logging if available
-    if (loggerModule?.requestLogger) {
+    if (loggerModule?.requestLogger && !hasPlugin(config, 'rytestack:logger')) {
         middleware.push(
             loggerModule.requestLogger({
                 logTiming: true,
@@ -42,36 +99,15 @@ export function createDefaultMiddleware(config: any): any[] {
         );
     }
 
-    // Add security headers if available and enabled
-    if (securityModule?.securityHeaders && config.security?.headers?.enabled) {
-        middleware.push(
-            securityModule.securityHeaders({
-                contentSecurityPolicy: config.security.headers.contentSecurityPolicy,
-                hsts: config.security.headers.hsts
-            })
-        );
-    }
-
-    // Add CSRF protection if available and enabled
-    if (securityModule?.csrfProtection && config.security?.csrf?.enabled) {
-        middleware.push(
-            securityModule.csrfProtection({
-                cookieName: config.security.csrf.cookieName,
-                headerName: config.security.csrf.headerName,
-                ignoreMethods: config.security.csrf.ignoreMethods,
-                ignorePaths: config.security.csrf.ignorePaths
-            })
-        );
-    }
-
-    // Add other built-in middleware
-    middleware.push(
-        require('./builtin').compression(),
-        require('./builtin').cors({
+    return [
+        ...middleware,
+        ...routeRules,
+        ...createSecurityMiddleware(config),
+        ...getPluginMiddleware(config),
+        compression(),
+        cors({
             origin: config.mode === 'production' ? config.security?.cors?.origin || '*' : '*',
             credentials: true
         })
-    );
-
-    return middleware;
-}
\ No newline at end of file
+    ];
+}
@@ -0,0 +1,155 @@
+/**
+ * @fileoverview Filesystem middleware for Rytestack
+ *
+ * Runs `_middleware` files from the pages and API directories for
+ * requests inside the folder they live in.
+ */
+import { Context, Next } from 'hono';
+import { MiddlewareRoute, compareRoutePaths, matchRoutePath } from '@rytestack/core';
+import { createMiddlewareContext, createMiddlewareStack } from './core';
+import { Middleware } from './types';
+
+/**
+ * Middleware of a `_middleware` file, scoped to its folder
+ */
+export interface ScopedMiddleware extends Pick<MiddlewareRoute, 'path' | 'type' | 'routes' | 'precedingRoutes'> {
+    /**
+     * Middleware exported by the file, in order
+     */
+    middleware: Middleware[];
+}
+
+/**
+ * Reads the middleware exported by a `_middleware` module
+ *
+ * The module's default export must be a middleware or an array of middleware.
+ *
+ * @param module Loaded `_middleware` module
+ * @param file File the module was loaded from, used in errors
+ * @returns Middleware in order
+ * @throws Error if the default export isn't middleware
+ */
+export function getModuleMiddleware(module: any, file: string): Middleware[] {
+    const exported = module?.default;
+    const middleware = Array.isArray(exported) ? exported : [exported];
+
+    for (const entry of middleware) {
+        if (!entry || typeof entry.handler !== 'function') {
+            throw new Error(`Middleware file must default export a middleware or an array of middleware: ${file}`);
+        }
+    }
+
+    return middleware;
+}
+
+/**
+ * Loads discovered `_middleware` files
+ *
+ * @param routes Discovered middleware files, ordered parent to child
+ * @param loadModule Loads a middleware module by its file path
+ * @returns Scoped middleware in the same order
+ */
+export async function loadScopedMiddleware(
+    routes: MiddlewareRoute[],
+    loadModule: (file: string) => Promise<any>
+): Promise<ScopedMiddleware[]> {
+    return Promise.all(routes.map(async route => ({
+        path: route.path,
+        type: route.type,
+        routes: route.routes,
+        precedingRoutes: route.precedingRoutes,
+        middleware: getModuleMiddleware(await loadModule(route.file), route.file)
+    })));
+}
+
+/**
+ * Checks whether a pathname is handled by the API directory
+ */
+function isApiPath(pathname: string): boolean {
+    return pathname === '/api' || pathname.startsWith('/api/');
+}
+
+/**
+ * Creates a matcher for the requests a scope applies to
+ *
+ * Scopes in route groups apply to the routes of their folder, so the
+ * request is resolved like the route handlers do: the first matching
+ * route in ranked order must be one of the scope's routes.
+ *
+ * @param scope Scoped middleware
+ * @returns Function returning the parameters of the folder path, or null if the request is out of scope
+ */
+function createScopeMatcher(scope: ScopedMiddleware): (pathname: string) => Record<string, string> | null {
+    const matchFolder = (pathname: string) => matchRoutePath(scope.path, pathname, { prefix: true });
+
+    if (!scope.routes) {
+        return matchFolder;
+    }
+
+    const routes = new Set(scope.routes);
+    const candidates = [...scope.routes, ...(scope.precedingRoutes || [])].sort(compareRoutePaths);
+
+    return pathname => {
+        const route = candidates.find(candidate => matchRoutePath(candidate, pathname));
+
+        return route && routes.has(route) ? matchFolder(pathname) : null;
+    };
+}
+
+/**
+ * Creates a Hono middleware running scoped middleware for matching requests
+ *
+ * Every scope whose folder contains the requested path runs, parent
+ * folders first. Scopes in route groups only run for the routes in
+ * their folder. Page middleware doesn't run for API requests.
+ * Parameters of dynamic folders are added to `c.rytestack.params`.
+ *
+ * @param scopes Scoped middleware, ordered parent to child
+ * @returns Hono middleware function
+ *
+ * @example
+ * ```typescript
+ * // src/pages/admin/_middleware.ts
+ * export default {
+ *     name: 'admin-auth',
+ *     handler: async (c, next) => {
+ *         if (!c.req.header('Authorization')) {
+ *             c.res = c.text('Unauthorized', 401);
+ *             return;
+ *         }
+ *         await next();
+ *     }
+ * };
+ * ```
+ */
+export function createScopedMiddleware(scopes: ScopedMiddleware[]) {
+    const matchers = scopes.map(scope => ({ scope, match: createScopeMatcher(scope) }));
+
+    return async (c: Context, next: Next) => {
+        const pathname = c.req.path;
+        const params: Record<string, string> = {};
+        const middleware: Middleware[] = [];
+
+        for (const { scope, match: matchScope } of matchers) {
+            if (scope.type === 'page' && isApiPath(pathname)) {
+                continue;
+            }
+
+            const match = matchScope(pathname);
+
+            if (match) {
+                Object.assign(params, match);
+                middleware.push(...scope.middleware);
+            }
+        }
+
+        if (middleware.length === 0) {
+            return next();
+        }
+
+        const context = createMiddlewareContext(c);
+        Object.assign(context.rytestack.params, params);
+
+        await createMiddlewareStack(middleware)(context, next);
+    };
+}
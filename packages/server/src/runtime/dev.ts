@@ -1,16 +1,39 @@
 /**
  * @fileoverview Development server for Rytestack
  *
- * Creates and configures a development server with hot reload.
+ * Creates and configures a development server with live reload and hot updates.
  */
-import { Hono } from 'hono';
-import { RytestackConfig } from '@rytestack/core';
-import { createMiddlewareStack, Middleware, logger } from '../middleware';
+import type { Server } from 'http';
+import { Hono, MiddlewareHandler } from 'hono';
+import { RytestackConfig, getPluginMiddleware } from '@rytestack/core';
+import { createMiddlewareStack, createRouteRulesMiddleware, createScopedMiddleware, createSecurityMiddleware, Middleware, ScopedMiddleware, logger } from '../middleware';
+import { registerMethodNotAllowed } from '../utils/methods';
+import { createLiveReload } from './liveReload';
+
+/**
+ * Handlers built from the project sources, replaced after every rebuild
+ */
+export interface DevServerHandlers {
+    /**
+     * Middleware from `_middleware` files, ordered parent to child
+     */
+    scopedMiddleware?: ScopedMiddleware[];
+
+    /**
+     * Page handler function
+     */
+    pageHandler: (c: any) => Promise<Response>;
+
+    /**
+     * API handlers
+     */
+    apiHandlers?: Record<string, any>;
+}
 
 /**
  * Options for creating a development server
  */
-export interface CreateDevServerOptions {
+export interface CreateDevServerOptions extends DevServerHandlers {
     /**
      * Rytestack configuration
      */
@@ -22,14 +45,10 @@ export interface CreateDevServerOptions {
     middleware?: Middleware[];
 
     /**
-     * Page handler function
-     */
-    pageHandler: (c: any) => Promise<Response>;
-
-    /**
-     * API handlers
+     * Directories served as static files before pages and API routes,
+     * relative to the working directory
      */
-    apiHandlers?: Record<string, any>;
+    staticDirs?: string[];
 
     /**
      * Port to listen on
@@ -42,45 +61,162 @@ export interface CreateDevServerOptions {
     host?: string;
 }
 
+/**
+ * Development server
+ */
+export interface DevServer {
+    /**
+     * Hono app with the current handlers
+     */
+    readonly app: Hono;
+
+    /**
+     * Starts listening for requests
+     *
+     * @throws Error if the port can't be bound
+     */
+    start: () => Promise<void>;
+
+    /**
+     * Replaces the handlers after a rebuild and updates connected browsers
+     *
+     * @param handlers Handlers of the new build
+     * @param hotUpdate URLs of the client chunks to hot swap, connected browsers reload without them
+     */
+    update: (handlers: DevServerHandlers, hotUpdate?: string[]) => void;
+
+    /**
+     * Reloads connected browsers
+     */
+    reload: () => void;
+
+    /**
+     * Stops listening and closes the live reload connections
+     */
+    close: () => Promise<void>;
+}
+
+/**
+ * Creates middleware serving the files of a directory
+ *
+ * The Node.js adapter is only loaded on the first request, so edge
+ * bundles importing this package don't depend on it.
+ */
+function serveDirectory(root: string): Middleware {
+    let serve: Promise<MiddlewareHandler> | undefined;
+
+    return {
+        name: 'static',
+        handler: async (c, next) => {
+            serve ??= import('@hono/node-server/serve-static').then(({ serveStatic }) => serveStatic({ root }));
+
+            const response = await (await serve)(c, next);
+
+            if (response) {
+                c.res = response;
+            }
+        }
+    };
+}
+
 /**
  * Creates a development server for Rytestack applications
  *
+ * Requests always reach the handlers passed last to `update()`, so the
+ * server keeps listening while the project is rebuilt.
+ *
  * @param options Development server options
- * @returns Hono app and server instance
+ * @returns Development server
  */
 export function createDevServer({
                                     config,
                                     middleware = [],
-                                    pageHandler,
-                                    apiHandlers = {},
+                                    staticDirs = [],
                                     port = 3000,
-                                    host = 'localhost'
-                                }: CreateDevServerOptions): { app: Hono; start: () => Promise<void> } {
-    // Create Hono app
-    const app = new Hono();
+                                    host = 'localhost',
+                                    ...handlers
+                                }: CreateDevServerOptions): DevServer {
+    const liveReload = createLiveReload();
+    const requestLogger = logger();
+    const securityMiddleware = createSecurityMiddleware(config);
+    const pluginMiddleware = getPluginMiddleware(config);
+    const staticMiddleware = staticDirs.map(serveDirectory);
+
+    const createApp = ({ scopedMiddleware = [], pageHandler, apiHandlers = {} }: DevServerHandlers): Hono => {
+        // Create Hono app
+        const app = new Hono();
 
-    // Add logger middleware
-    const allMiddleware = [logger(), ...middleware];
+        // Same order as in production: redirects, rewrites and custom headers apply before security and page and API handling
+        const appMiddleware = [
+            requestLogger,
+            liveReload.middleware,
+            ...createRouteRulesMiddleware(config, app),
+            ...securityMiddleware,
+            ...pluginMiddleware,
+            ...middleware,
+            ...staticMiddleware
+        ];
 
-    // Apply middleware stack
-    app.use('*', createMiddlewareStack(allMiddleware));
+        // Apply middleware stack
+        app.use('*', createMiddlewareStack(appMiddleware));
 
-    // Register API handlers
-    for (const [path, handler] of Object.entries(apiHandlers)) {
-        app.route(path, handler);
-    }
+        // Apply folder-scoped middleware after the application-wide stack
+        if (scopedMiddleware.length > 0) {
+            app.use('*', createScopedMiddleware(scopedMiddleware));
+        }
+
+        // Register API handlers
+        for (const [path, handler] of Object.entries(apiHandlers)) {
+            app.route(path, handler);
+            registerMethodNotAllowed(app, path, handler);
+        }
+
+        // Register page handler for all other routes, posts go to page actions
+        app.get('*', pageHandler);
+        app.post('*', pageHandler);
+
+        return app;
+    };
 
-    // Register page handler for all other routes
-    app.get('*', pageHandler);
+    let app = createApp(handlers);
+    let server: Server | undefined;
 
-    // Create start function
     const start = async () => {
-        console.log(`Development server starting at http://${host}:${port}...`);
+        // Loaded here, so edge bundles importing this package don't depend on it
+        const { serve } = await import('@hono/node-server');
 
-        // In a real implementation, we would start the server here
-        // For now, we'll just log a message
-        console.log('Server started!');
+        await new Promise<void>((resolve, reject) => {
+            server = serve({ fetch: request => app.fetch(request), port, hostname: host }, () => resolve()) as Server;
+            server.once('error', reject);
+        });
+
+        console.log(`Development server listening at http://${host}:${port}`);
+    };
+
+    const close = async () => {
+        liveReload.close();
+
+        if (server) {
+            await new Promise<void>(resolve => server!.close(() => resolve()));
+            server = undefined;
+        }
     };
 
-    return { app, start };
-}
\ No newline at end of file
+    return {
+        get app() {
+            return app;
+        },
+        start,
+        update: (newHandlers: DevServerHandlers, hotUpdate?: string[]) => {
+            app = createApp(newHandlers);
+
+            if (hotUpdate) {
+                liveReload.update(hotUpdate);
+            } else {
+                liveReload.reload();
+            }
+        },
+        reload: liveReload.reload,
+        close
+    };
+}
@@ -4,4 +4,5 @@
  * This file exports utilities for the server runtime.
  */
 export * from './server';
-export * from './dev';
\ No newline at end of file
+export * from './dev';
+export * from './liveReload';
@@ -0,0 +1,163 @@
+/**
+ * @fileoverview Live reload for the development server
+ *
+ * Keeps a server-sent events channel open to every page rendered by the
+ * development server and tells them to reload, or to apply updated client
+ * modules, after a rebuild.
+ */
+import { Middleware } from '../middleware';
+
+/**
+ * Path of the live reload event stream
+ */
+export const LIVE_RELOAD_PATH = '/__rytestack/events';
+
+/**
+ * Script connecting a page to the live reload event stream
+ *
+ * Browsers reconnect on their own when the server restarts, so a page
+ * also reloads once it reconnects after losing the connection. Updates are
+ * passed to the hot update handler of the framework runtime, pages without
+ * one reload.
+ */
+const LIVE_RELOAD_SCRIPT = `<script type="module">
+const source = new EventSource(${JSON.stringify(LIVE_RELOAD_PATH)});
+let disconnected = false;
+source.addEventListener('reload', () => location.reload());
+source.addEventListener('update', event => {
+    const { urls } = JSON.parse(event.data);
+    window.__RYTESTACK_HOT_UPDATE__ ? window.__RYTESTACK_HOT_UPDATE__(urls) : location.reload();
+});
+source.addEventListener('error', () => { disconnected = true; });
+source.addEventListener('open', () => { if (disconnected) location.reload(); });
+</script>`;
+
+/**
+ * Inserts a script before the closing body tag of a streamed HTML document,
+ * or appends it when the document has none
+ */
+function injectScript(script: string): TransformStream<Uint8Array, Uint8Array> {
+    const decoder = new TextDecoder();
+    const encoder = new TextEncoder();
+    let injected = false;
+
+    return new TransformStream({
+        transform(chunk, controller) {
+            let html = decoder.decode(chunk, { stream: true });
+
+            if (!injected && html.includes('</body>')) {
+                html = html.replace('</body>', `${script}\n</body>`);
+                injected = true;
+            }
+
+            controller.enqueue(encoder.encode(html));
+        },
+        flush(controller) {
+            const html = decoder.decode();
+
+            controller.enqueue(encoder.encode(injected ? html : `${html}${script}`));
+        }
+    });
+}
+
+/**
+ * Live reload channel
+ */
+export interface LiveReload {
+    /**
+     * Middleware serving the event stream and injecting the client script into HTML responses
+     */
+    middleware: Middleware;
+
+    /**
+     * Tells every connected page to reload
+     */
+    reload: () => void;
+
+    /**
+     * Pushes updated client modules to every connected page
+     *
+     * @param urls URLs of the updated client chunks
+     */
+    update: (urls: string[]) => void;
+
+    /**
+     * Closes every open event stream
+     */
+    close: () => void;
+}
+
+/**
+ * Creates a live reload channel
+ *
+ * @returns Live reload channel
+ */
+export function createLiveReload(): LiveReload {
+    const encoder = new TextEncoder();
+    const clients = new Set<ReadableStreamDefaultController<Uint8Array>>();
+
+    const send = (event: string, data: unknown = {}) => {
+        for (const client of clients) {
+            try {
+                client.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+            } catch (error) {
+                // The page went away without closing the stream
+                clients.delete(client);
+            }
+        }
+    };
+
+    return {
+        middleware: {
+            name: 'live-reload',
+            handler: async (c, next) => {
+                if (c.req.path === LIVE_RELOAD_PATH) {
+                    let controller: ReadableStreamDefaultController<Uint8Array>;
+
+                    const stream = new ReadableStream<Uint8Array>({
+                        start(streamController) {
+                            controller = streamController;
+                            clients.add(controller);
+                            controller.enqueue(encoder.encode('retry: 1000\n\n'));
+                        },
+                        cancel() {
+                            clients.delete(controller);
+                        }
+                    });
+
+                    c.res = new Response(stream, {
+                        headers: {
+                            'Content-Type': 'text/event-stream',
+                            'Cache-Control': 'no-cache',
+                            Connection: 'keep-alive'
+                        }
+                    });
+                    return;
+                }
+
+                await next();
+
+                if (c.res.headers.get('Content-Type')?.includes('text/html') && c.res.body) {
+                    const body = c.res.body.pipeThrough(injectScript(LIVE_RELOAD_SCRIPT));
+                    const headers = new Headers(c.res.headers);
+                    headers.delete('Content-Length');
+
+                    c.res = new Response(body, { status: c.res.status, headers });
+                }
+            }
+        },
+        reload: () => send('reload'),
+        update: (urls: string[]) => send('update', { urls }),
+        close: () => {
+            for (const client of clients) {
+                try {
+                    client.close();
+                } catch (error) {
+                    // Already closed
+                }
+            }
+
+            clients.clear();
+        }
+    };
+}
@@ -5,7 +5,8 @@
  */
 import { Hono } from 'hono';
 import { RytestackConfig } from '@rytestack/core';
-import { createMiddlewareStack, Middleware, createDefaultMiddleware } from '../middleware';
+import { createMiddlewareStack, createScopedMiddleware, Middleware, ScopedMiddleware, createDefaultMiddleware, createRouteRulesMiddleware } from '../middleware';
+import { registerMethodNotAllowed } from '../utils/methods';
 
 /**
  * Options for creating a server
@@ -21,6 +22,11 @@ export interface CreateServerOptions {
      */
     middleware?: Middleware[];
 
+    /**
+     * Middleware from `_middleware` files, ordered parent to child
+     */
+    scopedMiddleware?: ScopedMiddleware[];
+
     /**
      * Page handler function
      */
@@ -46,6 +52,7 @@ export interface CreateServerOptions {
 export function createServer({
                                  config,
                                  middleware = [],
+                                 scopedMiddleware = [],
                                  pageHandler,
                                  apiHandlers = {},
                                  useDefaultMiddleware = true
@@ -53,25 +60,30 @@ export function createServer({
     // Create Hono app
     const app = new Hono();
 
-    // Apply middleware stack
-    const allMiddleware = [...middleware];
-
-    // Add default middleware if requested
-    if (useDefaultMiddleware) {
-        const defaultMiddleware = createDefaultMiddleware(config);
-        allMiddleware.unshift(...defaultMiddleware);
-    }
+    // Redirects, rewrites and custom headers apply after logging, before security and page and API handling
+    const routeRules = createRouteRulesMiddleware(config, app);
+    const allMiddleware = [
+        ...(useDefaultMiddleware ? createDefaultMiddleware(config, routeRules) : routeRules),
+        ...middleware
+    ];
 
     // Apply middleware stack
     app.use('*', createMiddlewareStack(allMiddleware));
 
+    // Apply folder-scoped middleware after the application-wide stack
+    if (scopedMiddleware.length > 0) {
+        app.use('*', createScopedMiddleware(scopedMiddleware));
+    }
+
     // Register API handlers
     for (const [path, handler] of Object.entries(apiHandlers)) {
         app.route(path, handler);
+        registerMethodNotAllowed(app, path, handler);
     }
 
-    // Register page handler for all other routes
+    // Register page handler for all other routes, posts go to page actions
     app.get('*', pageHandler);
+    app.post('*', pageHandler);
 
     return app;
 }
\ No newline at end of file
@@ -3,4 +3,5 @@
  *
  * Common utilities for the server package.
  */
-export * from './cloudflare';
\ No newline at end of file
+export * from './cloudflare';
+export * from './methods';
\ No newline at end of file
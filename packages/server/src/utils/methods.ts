@@ -0,0 +1,46 @@
+/**
+ * @fileoverview HTTP method utilities
+ *
+ * Utilities for answering requests with unsupported HTTP methods.
+ */
+import { Context, Hono } from 'hono';
+import { getAllowHeader } from '@rytestack/core';
+
+/**
+ * Creates a handler that responds with 405 Method Not Allowed
+ *
+ * @param methods Methods the route does support
+ * @returns Hono handler
+ */
+export function methodNotAllowed(methods: string[]) {
+    const allow = getAllowHeader(methods);
+
+    return (c: Context) => c.text('Method Not Allowed', 405, { Allow: allow });
+}
+
+/**
+ * Registers 405 handlers for every path of a mounted sub-app
+ *
+ * Must be called after the sub-app is mounted, so its own handlers match first.
+ *
+ * @param app Parent Hono app
+ * @param basePath Path the sub-app is mounted at
+ * @param subApp Mounted sub-app
+ */
+export function registerMethodNotAllowed(app: Hono, basePath: string, subApp: Hono): void {
+    const methodsByPath = new Map<string, string[]>();
+
+    for (const route of subApp.routes) {
+        // Middleware is registered for all methods and doesn't define a route
+        if (route.method === 'ALL') {
+            continue;
+        }
+
+        const routePath = `${basePath.replace(/\/$/, '')}${route.path === '/' ? '' : route.path}` || '/';
+        methodsByPath.set(routePath, [...(methodsByPath.get(routePath) || []), route.method]);
+    }
+
+    for (const [routePath, methods] of methodsByPath) {
+        app.all(routePath, methodNotAllowed(methods));
+    }
+}
@@ -131,12 +131,6 @@ export function csrfProtection(options: CsrfOptions = {}): Middleware {
             const method = req.method;
             const path = new URL(req.url).pathname;
 
-            // Skip CSRF protection for ignored methods
-            if (config.ignoreMethods?.includes(method)) {
-                await next();
-                return;
-            }
-
             // Skip CSRF protection for ignored paths
             if (config.ignorePaths?.some(ignorePath => {
                 if (ignorePath.endsWith('*')) {
@@ -172,7 +166,8 @@ export function csrfProtection(options: CsrfOptions = {}): Middleware {
                 });
             }
 
-            // Validate CSRF token for non-GET requests
+            // Validate CSRF token for non-GET requests, GET requests only
+            // get the secret and token generation so pages can render forms
             if (!config.ignoreMethods?.includes(method)) {
                 // Try to get token from header or form
                 const token =
@@ -180,8 +175,9 @@ export function csrfProtection(options: CsrfOptions = {}): Middleware {
                     (await req.parseBody())?.[config.formFieldName!];
 
                 if (!token || !tokens.verify(secret, token as string)) {
-                    ctx.status(403);
-                    return ctx.json({ error: 'Invalid CSRF token' });
+                    // Set on the context, the middleware stack doesn't pass on returned responses
+                    ctx.res = ctx.json({ error: 'Invalid CSRF token' }, 403);
+                    return;
                 }
             }
 
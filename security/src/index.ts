@@ -5,4 +5,5 @@
  */
 export * from './csrf';
 export * from './headers';
-export * from './validation';
\ No newline at end of file
+export * from './validation';
+export * from './plugin';
\ No newline at end of file
@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Security plugin
+ *
+ * Registers the security headers and CSRF protection middleware.
+ */
+import { RytestackPlugin } from '@rytestack/core';
+import { Middleware } from '@rytestack/server';
+import { SecurityHeadersOptions, securityHeaders } from './headers';
+import { CsrfOptions, csrfProtection } from './csrf';
+
+/**
+ * Security plugin options
+ *
+ * Both middleware are configured from the `security` config, these
+ * options override it.
+ */
+export interface SecurityPluginOptions {
+    /**
+     * Security headers options, `false` disables the middleware
+     */
+    headers?: false | SecurityHeadersOptions;
+
+    /**
+     * CSRF protection options, `false` disables the middleware
+     */
+    csrf?: false | CsrfOptions;
+}
+
+/**
+ * Creates the security plugin
+ *
+ * @param options Plugin options
+ * @returns Rytestack plugin
+ *
+ * @example
+ * ```typescript
+ * import { defineConfig } from '@rytestack/core';
+ * import { securityPlugin } from '@rytestack/security';
+ *
+ * export default defineConfig({
+ *   plugins: [securityPlugin()],
+ *   security: {
+ *     headers: { contentSecurityPolicy: true }
+ *   }
+ * });
+ * ```
+ */
+export function securityPlugin(options: SecurityPluginOptions = {}): RytestackPlugin {
+    return {
+        name: 'rytestack:security',
+        middleware({ config }) {
+            const middleware: Middleware[] = [];
+            const { headers, csrf } = config.security;
+
+            if (headers.enabled && options.headers !== false) {
+                middleware.push(securityHeaders({
+                    contentSecurityPolicy: headers.contentSecurityPolicy,
+                    hsts: headers.hsts,
+                    ...options.headers
+                } as SecurityHeadersOptions));
+            }
+
+            if (csrf.enabled && options.csrf !== false) {
+                middleware.push(csrfProtection({
+                    cookieName: csrf.cookieName,
+                    headerName: csrf.headerName,
+                    ignoreMethods: csrf.ignoreMethods,
+                    ignorePaths: csrf.ignorePaths,
+                    ...options.csrf
+                }));
+            }
+
+            return middleware;
+        }
+    };
+}